@@ -1,7 +1,11 @@
 import { Command } from "commander";
 
-import { resolveToken } from "../lib/config";
+import { listProfiles, resolveActiveProfile, resolveProfileCredentials, resolveToken } from "../lib/config";
+import { LinearClient } from "../lib/linear-client";
+import { fetchViewer } from "../lib/linear-service";
 import { SlackListsClient } from "../lib/slack-client";
+import { getGlobalOptions } from "../utils/command";
+import { handleCommandError } from "../utils/errors";
 import { outputJson } from "../utils/output";
 
 export function registerAuthCommands(program: Command): void {
@@ -9,12 +13,81 @@ export function registerAuthCommands(program: Command): void {
 
   auth
     .command("status")
-    .description("Verify token works")
+    .description("Verify token works (and every configured profile)")
     .action(async (_options, command: Command) => {
-      const opts = command.optsWithGlobals();
-      const token = resolveToken({ token: opts.token, asUser: opts.asUser });
-      const client = new SlackListsClient(token);
-      const result = await client.authTest();
-      outputJson({ ...result, ok: true });
+      const globals = getGlobalOptions(command);
+
+      try {
+        const profiles = listProfiles();
+        if (profiles.length === 0) {
+          const client = new SlackListsClient(resolveToken({ token: globals.token, asUser: globals.asUser }));
+          const result = await client.authTest();
+          outputJson({ ...result, ok: true });
+          return;
+        }
+
+        // With profiles, a missing or bad default token must not hide the per-profile report.
+        let current: Record<string, unknown>;
+        try {
+          const client = new SlackListsClient(resolveToken({ token: globals.token, asUser: globals.asUser }));
+          current = { ...(await client.authTest()), ok: true };
+        } catch (error) {
+          current = { ok: false, error: (error as Error)?.message ?? String(error) };
+        }
+
+        const active = resolveActiveProfile();
+        const statuses = [];
+        for (const name of profiles) {
+          statuses.push({ name, active: name === active, ...(await checkProfile(name)) });
+        }
+        outputJson({
+          ...current,
+          ok: current.ok === true || statuses.some((status) => status.slack.ok === true),
+          active_profile: active ?? null,
+          profiles: statuses
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
     });
 }
+
+async function checkProfile(
+  name: string
+): Promise<{ configured: boolean; slack: Record<string, unknown>; linear: Record<string, unknown> }> {
+  const credentials = resolveProfileCredentials(name);
+
+  let slack: Record<string, unknown> = { ok: false, source: null, error: "No Slack token configured" };
+  if (credentials.slack) {
+    const source = credentials.slack.source;
+    try {
+      const client = new SlackListsClient(credentials.slack.value);
+      const result = (await client.authTest()) as unknown as Record<string, unknown>;
+      slack = {
+        ok: true,
+        source,
+        team: result.team,
+        team_id: result.team_id,
+        user: result.user,
+        user_id: result.user_id
+      };
+    } catch (error) {
+      slack = { ok: false, source, error: (error as Error)?.message ?? String(error) };
+    }
+  }
+
+  let linear: Record<string, unknown> = { ok: false, source: null, error: "No Linear API key configured" };
+  if (credentials.linear) {
+    const source = credentials.linear.source;
+    try {
+      const viewer = await fetchViewer(new LinearClient(credentials.linear.value, 1));
+      linear = { ok: true, source, id: viewer.id, name: viewer.name, email: viewer.email };
+    } catch (error) {
+      linear = { ok: false, source, error: (error as Error)?.message ?? String(error) };
+    }
+  }
+
+  // A profile that inherits env/top-level credentials is really talking to whatever workspace those point at.
+  const configured = credentials.slack?.source === "profile" && credentials.linear?.source === "profile";
+  return { configured, slack, linear };
+}
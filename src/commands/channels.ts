@@ -0,0 +1,77 @@
+import { Command } from "commander";
+
+import { resolveToken } from "../lib/config";
+import { DirectoryChannel, toDirectoryChannel } from "../lib/directory";
+import { findChannels, resolveChannelId } from "../lib/resolvers";
+import { SlackListsClient } from "../lib/slack-client";
+import { getGlobalOptions } from "../utils/command";
+import { handleCommandError } from "../utils/errors";
+import { outputJson } from "../utils/output";
+
+export function registerChannelsCommands(program: Command): void {
+  const channels = program.command("channels").description("Look up Slack channels");
+
+  channels
+    .command("find")
+    .description("Search channels by name")
+    .argument("<query>", "Channel name or fragment")
+    .option("--limit <count>", "Maximum channels to return", "10")
+    .option("--member", "Only channels the token's user or bot is a member of", false)
+    .action(async (query: string, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const limit = Number(options.limit);
+        if (!Number.isFinite(limit) || limit <= 0) {
+          throw new Error("--limit must be a positive number");
+        }
+        const matches = await findChannels(client, query, options.member ? Number.MAX_SAFE_INTEGER : limit);
+        const results = (options.member ? matches.filter((channel) => channel.is_member) : matches)
+          .slice(0, limit)
+          .map(compactChannel);
+        outputJson({ ok: true, query, count: results.length, channels: results });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  channels
+    .command("get")
+    .description("Get one channel by ID or #name")
+    .argument("<channel>", "Channel ID or #name")
+    .action(async (input: string, _options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const id = await resolveChannelId(client, input);
+        const result = await client.call("conversations.info", { channel: id });
+        const raw = (result as { channel?: Record<string, unknown> }).channel ?? { id };
+        const channel = toDirectoryChannel(raw);
+        const topic = (raw.topic as { value?: string } | undefined)?.value;
+        const purpose = (raw.purpose as { value?: string } | undefined)?.value;
+        outputJson({
+          ok: true,
+          channel: {
+            ...compactChannel(channel),
+            is_archived: channel.is_archived ?? false,
+            num_members: channel.num_members ?? null,
+            topic: topic || null,
+            purpose: purpose || null
+          }
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+}
+
+function compactChannel(channel: DirectoryChannel): Record<string, unknown> {
+  return {
+    id: channel.id,
+    name: channel.name ?? null,
+    is_private: channel.is_private ?? false,
+    is_member: channel.is_member ?? false
+  };
+}
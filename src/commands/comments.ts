@@ -1,15 +1,19 @@
 import { Command } from "commander";
 
+import { buildMessageBlocks } from "../lib/blocks";
 import { resolveDefaultChannel, resolveToken } from "../lib/config";
+import { fetchThreadReplies, fetchThreadRepliesPage, ThreadReply } from "../lib/issue-threads";
+import { summarizeReactions } from "../lib/reactions";
 import { findColumnByType } from "../lib/schema";
 import { resolveSchemaIndex } from "../lib/schema-resolver";
-import { getThreadEntry, setThreadEntry } from "../lib/thread-map";
-import { parseMessageUrl, resolveChannelId, resolveUserId } from "../lib/resolvers";
+import { getThreadEntries, getThreadEntry, recordScheduledMessage, setThreadEntry } from "../lib/thread-map";
+import { openDirectMessage, parseMessageUrl, resolveChannelId, resolveUserId } from "../lib/resolvers";
 import { buildThreadRootText, extractThreadFromItem } from "../lib/thread-utils";
 import { SlackListsClient } from "../lib/slack-client";
+import { latestSlackTs, parseScheduleTime, parseSlackTimestamp } from "../lib/slack-time";
 import { getGlobalOptions } from "../utils/command";
 import { handleCommandError } from "../utils/errors";
-import { outputJson } from "../utils/output";
+import { EXIT_TIMEOUT, outputError, outputJson } from "../utils/output";
 
 export function registerCommentCommands(program: Command): void {
   program
@@ -21,11 +25,17 @@ export function registerCommentCommands(program: Command): void {
     .option("--channel <channel>", "Channel ID or name")
     .option("--thread-ts <ts>", "Thread timestamp")
     .option("--message-url <url>", "Slack message URL to infer thread")
+    .option("--blocks <json>", "Block Kit blocks as JSON or @file (text becomes the fallback)")
+    .option("--template <name>", "Render Block Kit: status-update|question|review-request")
+    .option("--issue <issue-id>", "Linear issue to show in the template")
+    .option("--at <time>", "Schedule the comment instead of posting now (ISO time or +2h)")
     .action(async (listId: string, itemId: string, text: string, options, command: Command) => {
       const globals = getGlobalOptions(command);
       const client = new SlackListsClient(resolveToken(globals));
 
       try {
+        const postAt = options.at ? parseScheduleTime(options.at) : undefined;
+        const blocks = await buildMessageBlocks(options, text);
         let channel = options.channel ? await resolveChannelId(client, options.channel) : undefined;
         let threadTs = options.threadTs as string | undefined;
 
@@ -134,11 +144,20 @@ export function registerCommentCommands(program: Command): void {
           );
         }
 
-        const result = await client.postMessage({
-          channel,
-          text,
-          thread_ts: threadTs
-        });
+        const message = { channel, text, thread_ts: threadTs, ...(blocks ? { blocks } : {}) };
+        const result = postAt
+          ? await client.scheduleMessage({ ...message, post_at: postAt })
+          : await client.postMessage(message);
+
+        const scheduledId = (result as { scheduled_message_id?: string }).scheduled_message_id;
+        if (postAt && scheduledId) {
+          await recordScheduledMessage(
+            listId,
+            itemId,
+            { channel, ts: threadTs, permalink: messageUrl },
+            { id: scheduledId, channel, post_at: postAt, text }
+          );
+        }
 
         if (messageUrl) {
           await setThreadEntry(listId, itemId, {
@@ -164,6 +183,12 @@ export function registerCommentCommands(program: Command): void {
     .option("--message-url <url>", "Slack message URL to infer thread")
     .option("--limit <count>", "Maximum messages to return", "200")
     .option("--compact", "Return only user/text/ts fields", false)
+    .option("--reactions", "Include each message's reactions", false)
+    .option("--since <time>", "Only replies after this Slack ts, ISO time or relative time (e.g. 2h)")
+    .option("--cursor <cursor>", "Resume from a previous next_cursor")
+    .option("--unread", "Only replies after the stored last-read marker", false)
+    .option("--after-last-seen", "Alias for --unread", false)
+    .option("--no-mark-read", "Do not advance the last-read marker")
     .action(async (listId: string, itemId: string, options, command: Command) => {
       const globals = getGlobalOptions(command);
       const client = new SlackListsClient(resolveToken(globals));
@@ -222,46 +247,38 @@ export function registerCommentCommands(program: Command): void {
           }
         }
 
-        const messages: Array<Record<string, unknown>> = [];
-        let cursor: string | undefined = undefined;
-        let remaining = limit;
-
-        do {
-          const batchSize = Math.min(remaining, 200);
-          const result = await client.call("conversations.replies", {
-            channel,
-            ts: threadTs,
-            limit: batchSize,
-            cursor
-          });
-
-          const page = (result as { messages?: Array<Record<string, unknown>> }).messages ?? [];
-          messages.push(...page);
-
-          cursor = (result as { response_metadata?: { next_cursor?: string } }).response_metadata
-            ?.next_cursor;
-
-          remaining = limit - messages.length;
-          if (remaining <= 0) {
-            break;
-          }
-        } while (cursor);
-
-        const trimmed = messages.slice(0, limit);
+        const stored = (await getThreadEntries(listId, itemId)).find((entry) => entry.ts === threadTs);
+        const unread = Boolean(options.unread || options.afterLastSeen);
+        const oldest = latestSlackTs(
+          parseSlackTimestamp(options.since, "--since"),
+          unread ? stored?.last_read_ts : undefined
+        );
+        const page = await fetchThreadRepliesPage(client, channel, threadTs, {
+          limit,
+          cursor: options.cursor as string | undefined,
+          oldest
+        });
+        const trimmed = page.messages;
+        const lastReadTs = latestSlackTs(stored?.last_read_ts, ...trimmed.map((message) => message.ts));
         const payload = options.compact
           ? trimmed.map((message) => ({
               ts: message.ts,
               user: message.user,
               text: message.text,
-              thread_ts: message.thread_ts
+              thread_ts: message.thread_ts,
+              ...(options.reactions ? { reactions: summarizeReactions(message.reactions) } : {})
             }))
-          : trimmed;
+          : trimmed.map((message) =>
+              options.reactions ? { ...message, reactions: summarizeReactions(message.reactions) } : message
+            );
 
-        if (messageUrl && channel && threadTs) {
+        const markRead = options.markRead !== false && lastReadTs !== stored?.last_read_ts;
+        if (messageUrl || markRead) {
           await setThreadEntry(listId, itemId, {
-            permalink: messageUrl,
+            ...(messageUrl ? { permalink: messageUrl } : {}),
             channel,
-            ts: threadTs
+            ts: threadTs,
+            ...(markRead && lastReadTs ? { last_read_ts: lastReadTs } : {})
           });
         }
 
@@ -269,7 +286,12 @@ export function registerCommentCommands(program: Command): void {
           ok: true,
           channel,
           thread_ts: threadTs,
+          oldest: oldest ?? null,
           message_count: trimmed.length,
+          has_more: Boolean(page.nextCursor),
+          next_cursor: page.nextCursor,
+          previous_last_read_ts: stored?.last_read_ts ?? null,
+          last_read_ts: options.markRead !== false ? lastReadTs ?? null : stored?.last_read_ts ?? null,
           messages: payload
         });
       } catch (error) {
@@ -280,19 +302,74 @@ export function registerCommentCommands(program: Command): void {
   program
     .command("ask")
     .description("Ask a question in a channel, with optional mention")
-    .argument("<channel>", "Channel ID or name")
-    .argument("<text>", "Question text")
+    .argument("<channel>", "Channel ID or name (omit when using --dm)")
+    .argument("[text]", "Question text")
     .option("--user <user>", "User to mention (@name, email, or ID)")
-    .action(async (channelInput: string, text: string, options, command: Command) => {
+    .option("--dm <user>", "Send as a direct message to this user instead of a channel")
+    .option("--ephemeral <user>", "Show the message only to this user in the channel")
+    .option("--blocks <json>", "Block Kit blocks as JSON or @file (text becomes the fallback)")
+    .option("--template <name>", "Render Block Kit: status-update|question|review-request")
+    .option("--issue <issue-id>", "Linear issue to show in the template")
+    .option("--wait", "Wait for a threaded reply to the question", false)
+    .option("--timeout <duration>", "How long to wait (e.g. 90s, 30m, 2h)", "30m")
+    .option("--interval <duration>", "Polling interval", "15s")
+    .option("--ignore-bots [ids]", "Ignore bot replies (all bots, or only these comma-separated bot/user IDs)")
+    .action(async (first: string, second: string | undefined, options, command: Command) => {
       const globals = getGlobalOptions(command);
       const client = new SlackListsClient(resolveToken(globals));
 
       try {
-        const channel = await resolveChannelId(client, channelInput);
-        const mention = options.user ? `<@${await resolveUserId(client, options.user)}>` : "";
-        const message = mention ? `${mention} ${text}` : text;
-        const result = await client.postMessage({ channel, text: message });
-        outputJson(result);
+        const { channelInput, text } = splitDeliveryArgs(first, second, options);
+        if (options.wait && options.ephemeral) {
+          throw new Error("--wait needs a threaded question and cannot be combined with --ephemeral");
+        }
+        const delivery = await resolveDelivery(client, channelInput, options);
+        const channel = delivery.channel;
+        const userId = options.user ? await resolveUserId(client, options.user) : undefined;
+        const message = userId ? `<@${userId}> ${text}` : text;
+        const timeoutMs = options.wait ? parseDuration(options.timeout, "--timeout") : 0;
+        const intervalMs = options.wait ? parseDuration(options.interval, "--interval") : 0;
+        const blocks = await buildMessageBlocks(options, message);
+        const result = await deliverMessage(client, delivery, { text: message, ...(blocks ? { blocks } : {}) });
+        if (!options.wait) {
+          outputJson(result);
+          return;
+        }
+
+        const questionTs = (result as { ts?: string }).ts;
+        if (!questionTs) {
+          throw new Error("Unable to determine question timestamp");
+        }
+        const self = await client.authTest();
+        const reply = await waitForReply(client, {
+          channel,
+          threadTs: questionTs,
+          userId: userId ?? delivery.dmUser,
+          selfId: (self as { user_id?: string }).user_id,
+          ignoreBots: options.ignoreBots as boolean | string | undefined,
+          timeoutMs,
+          intervalMs
+        });
+
+        const summary = {
+          channel,
+          question_ts: questionTs,
+          waited_for: userId ?? delivery.dmUser ?? null,
+          timeout_ms: timeoutMs
+        };
+        if (!reply) {
+          outputError("timeout", { ...summary, message: "No reply before the timeout" }, EXIT_TIMEOUT);
+        }
+        outputJson({
+          ok: true,
+          ...summary,
+          reply: {
+            ts: reply.ts,
+            user: reply.user ?? null,
+            bot_id: reply.bot_id ?? null,
+            text: reply.text ?? ""
+          }
+        });
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
@@ -301,15 +378,27 @@ export function registerCommentCommands(program: Command): void {
   program
     .command("post")
     .description("Post a message to a channel")
-    .argument("<channel>", "Channel ID or name")
-    .argument("<text>", "Message text")
-    .action(async (channelInput: string, text: string, _options, command: Command) => {
+    .argument("<channel>", "Channel ID or name (omit when using --dm)")
+    .argument("[text]", "Message text")
+    .option("--blocks <json>", "Block Kit blocks as JSON or @file (text becomes the fallback)")
+    .option("--template <name>", "Render Block Kit: status-update|question|review-request")
+    .option("--issue <issue-id>", "Linear issue to show in the template")
+    .option("--at <time>", "Schedule the message instead of posting now (ISO time or +2h)")
+    .option("--dm <user>", "Send as a direct message to this user instead of a channel")
+    .option("--ephemeral <user>", "Show the message only to this user in the channel")
+    .action(async (first: string, second: string | undefined, options, command: Command) => {
       const globals = getGlobalOptions(command);
       const client = new SlackListsClient(resolveToken(globals));
 
       try {
-        const channel = await resolveChannelId(client, channelInput);
-        const result = await client.postMessage({ channel, text });
+        const { channelInput, text } = splitDeliveryArgs(first, second, options);
+        if (options.at && options.ephemeral) {
+          throw new Error("Ephemeral messages cannot be scheduled; drop --at or --ephemeral");
+        }
+        const postAt = options.at ? parseScheduleTime(options.at) : undefined;
+        const delivery = await resolveDelivery(client, channelInput, options);
+        const blocks = await buildMessageBlocks(options, text);
+        const result = await deliverMessage(client, delivery, { text, ...(blocks ? { blocks } : {}) }, postAt);
         outputJson(result);
       } catch (error) {
         handleCommandError(error, globals.verbose);
@@ -335,3 +424,124 @@ export function registerCommentCommands(program: Command): void {
       }
     });
 }
+
+type Delivery = {
+  channel: string;
+  dmUser?: string;
+  ephemeralUser?: string;
+};
+
+function splitDeliveryArgs(
+  first: string,
+  second: string | undefined,
+  options: { dm?: string; ephemeral?: string }
+): { channelInput?: string; text: string } {
+  if (options.dm && options.ephemeral) {
+    throw new Error("Provide only one of --dm or --ephemeral");
+  }
+  if (second === undefined) {
+    if (!options.dm) {
+      throw new Error("Missing message text");
+    }
+    return { text: first };
+  }
+  if (options.dm) {
+    throw new Error("Provide either a channel or --dm, not both");
+  }
+  return { channelInput: first, text: second };
+}
+
+async function resolveDelivery(
+  client: SlackListsClient,
+  channelInput: string | undefined,
+  options: { dm?: string; ephemeral?: string }
+): Promise<Delivery> {
+  if (options.dm) {
+    const dm = await openDirectMessage(client, options.dm);
+    return { channel: dm.channel, dmUser: dm.user };
+  }
+  const channel = await resolveChannelId(client, channelInput ?? "");
+  const ephemeralUser = options.ephemeral ? await resolveUserId(client, options.ephemeral) : undefined;
+  return { channel, ephemeralUser };
+}
+
+async function deliverMessage(
+  client: SlackListsClient,
+  delivery: Delivery,
+  message: Record<string, unknown>,
+  postAt?: number
+): Promise<Record<string, unknown>> {
+  const params = { channel: delivery.channel, ...message };
+  if (delivery.ephemeralUser) {
+    const result = await client.call("chat.postEphemeral", { ...params, user: delivery.ephemeralUser });
+    return { ...result, ephemeral: true, user: delivery.ephemeralUser };
+  }
+  const result = postAt
+    ? await client.scheduleMessage({ ...params, post_at: postAt })
+    : await client.postMessage(params);
+  return delivery.dmUser ? { ...result, dm_user: delivery.dmUser } : { ...result };
+}
+
+async function waitForReply(
+  client: SlackListsClient,
+  options: {
+    channel: string;
+    threadTs: string;
+    userId?: string;
+    selfId?: string;
+    ignoreBots?: boolean | string;
+    timeoutMs: number;
+    intervalMs: number;
+  }
+): Promise<ThreadReply | null> {
+  const ignoredIds = typeof options.ignoreBots === "string" ? splitIds(options.ignoreBots) : [];
+  const deadline = Date.now() + options.timeoutMs;
+
+  while (true) {
+    const replies = await fetchThreadReplies(client, options.channel, options.threadTs, 200);
+    const match = replies.find((reply) => {
+      if (!reply.ts || Number(reply.ts) <= Number(options.threadTs)) {
+        return false;
+      }
+      if (options.userId) {
+        return reply.user === options.userId;
+      }
+      if (reply.user && reply.user === options.selfId) {
+        return false;
+      }
+      if (options.ignoreBots === true && (reply.bot_id || reply.subtype === "bot_message")) {
+        return false;
+      }
+      return !ignoredIds.some((id) => id === reply.user || id === reply.bot_id);
+    });
+    if (match) {
+      return match;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return null;
+    }
+    await sleep(Math.min(options.intervalMs, remaining));
+  }
+}
+
+function parseDuration(value: string, label: string): number {
+  const match = String(value).trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i);
+  if (!match) {
+    throw new Error(`${label} must be a duration like 90s, 30m or 2h`);
+  }
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  return Math.round(Number(match[1]) * unitMs[(match[2] ?? "s").toLowerCase()]);
+}
+
+function splitIds(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
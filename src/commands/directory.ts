@@ -0,0 +1,110 @@
+import { Command } from "commander";
+
+import { resolveDirectoryTtlMs, resolveToken } from "../lib/config";
+import {
+  clearDirectoryCache,
+  DIRECTORY_KINDS,
+  DirectoryKind,
+  getDirectoryCachePath,
+  isDirectoryStale,
+  loadDirectoryCache,
+  refreshDirectory,
+  resolveWorkspace
+} from "../lib/directory";
+import { SlackListsClient } from "../lib/slack-client";
+import { getGlobalOptions } from "../utils/command";
+import { handleCommandError } from "../utils/errors";
+import { outputJson } from "../utils/output";
+
+export function registerDirectoryCommands(program: Command): void {
+  const directory = program
+    .command("directory")
+    .description("Manage the cached Slack user and channel directory");
+
+  directory
+    .command("refresh")
+    .description("Re-fetch users and/or channels into the directory cache")
+    .argument("[kind]", "users or channels (default: both)")
+    .action(async (kind: string | undefined, _options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const workspace = await resolveWorkspace(client);
+        const counts: Record<string, number> = {};
+        for (const target of parseKinds(kind)) {
+          counts[target] = (await refreshDirectory(client, target)).length;
+        }
+        outputJson({ ok: true, team_id: workspace.team_id, team: workspace.team ?? null, counts });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  directory
+    .command("show")
+    .description("Show cache freshness, or the cached entries with --entries")
+    .argument("[kind]", "users or channels (default: both)")
+    .option("--entries", "Include the cached entries", false)
+    .action(async (kind: string | undefined, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const workspace = await resolveWorkspace(client);
+        const cache = await loadDirectoryCache(workspace.team_id);
+        const ttlMs = resolveDirectoryTtlMs();
+        const sections: Record<string, unknown> = {};
+        for (const target of parseKinds(kind)) {
+          const section = cache?.[target];
+          sections[target] = section
+            ? {
+                fetched_at: section.fetched_at,
+                stale: isDirectoryStale(section.fetched_at, ttlMs),
+                count: section.entries.length,
+                ...(options.entries ? { entries: section.entries } : {})
+              }
+            : null;
+        }
+        outputJson({
+          ok: true,
+          team_id: workspace.team_id,
+          team: workspace.team ?? cache?.team ?? null,
+          path: getDirectoryCachePath(workspace.team_id),
+          ttl_hours: ttlMs / 3_600_000,
+          ...sections
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  directory
+    .command("clear")
+    .description("Delete the cached directory for the current workspace")
+    .argument("[kind]", "users or channels (default: both)")
+    .action(async (kind: string | undefined, _options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const workspace = await resolveWorkspace(client);
+        const target = kind ? parseKinds(kind)[0] : undefined;
+        const cleared = await clearDirectoryCache(workspace.team_id, target);
+        outputJson({ ok: true, team_id: workspace.team_id, cleared: target ?? "all", removed: cleared });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+}
+
+function parseKinds(value?: string): DirectoryKind[] {
+  if (!value) {
+    return DIRECTORY_KINDS;
+  }
+  const kind = value.trim().toLowerCase() as DirectoryKind;
+  if (!DIRECTORY_KINDS.includes(kind)) {
+    throw new Error(`kind must be one of ${DIRECTORY_KINDS.join(", ")}`);
+  }
+  return [kind];
+}
@@ -2,9 +2,9 @@ import { Command } from "commander";
 import { createReadStream } from "fs";
 import path from "path";
 
-import { resolveDefaultChannel, resolveLinearApiKey, resolveToken } from "../lib/config";
+import { resolveDefaultChannel, resolveToken } from "../lib/config";
 import { buildTypedField } from "../lib/fields";
-import { LinearClient } from "../lib/linear-client";
+import { createAttachment, getLinearClient } from "../lib/linear-service";
 import { parseMessageUrl, resolveChannelId } from "../lib/resolvers";
 import { ColumnType } from "../lib/types";
 import { resolveSchemaIndex } from "../lib/schema-resolver";
@@ -15,18 +15,6 @@ import { getGlobalOptions } from "../utils/command";
 import { handleCommandError } from "../utils/errors";
 import { outputJson } from "../utils/output";
 
-const LINEAR_ATTACHMENT_MUTATION = `
-  mutation AttachmentCreate($input: AttachmentCreateInput!) {
-    attachmentCreate(input: $input) {
-      success
-      attachment {
-        id
-        url
-      }
-    }
-  }
-`;
-
 export function registerFilesCommands(program: Command): void {
   const files = program.command("files").description("Slack file helpers");
   files
@@ -92,15 +80,13 @@ export function registerFilesCommands(program: Command): void {
             throw new Error("Unable to attach file to Linear issue: missing Slack file permalink.");
           }
           const linear = getLinearClient();
-          linearAttachment = await linear.request<Record<string, unknown>>(LINEAR_ATTACHMENT_MUTATION, {
-            input: {
-              issueId: options.issue,
-              title: options.title ?? filename,
-              url: permalink,
-              metadata: {
-                source: "ml-agent",
-                type: "slack_file"
-              }
+          linearAttachment = await createAttachment(linear, {
+            issueId: options.issue,
+            title: options.title ?? filename,
+            url: permalink,
+            metadata: {
+              source: "ml-agent",
+              type: "slack_file"
             }
           });
         }
@@ -245,10 +231,3 @@ function extractEvidence(result: Record<string, unknown>): Array<Record<string,
   });
 }
 
-function getLinearClient(): LinearClient {
-  const apiKey = resolveLinearApiKey();
-  if (!apiKey) {
-    throw new Error("Missing Linear API key. Set LINEAR_API_KEY or .ml-agent.config.json");
-  }
-  return new LinearClient(apiKey);
-}
@@ -20,9 +20,10 @@ function getCapabilities() {
     globals: [
       { flag: "--token <token>", description: "Override token (otherwise uses env)" },
       { flag: "--as-user", description: "Use SLACK_USER_TOKEN" },
+      { flag: "--profile <name>", description: "Use a named profile (profiles.<name>.slack/linear in project config)" },
       { flag: "--schema <path>", description: "Path to a list schema JSON file" },
       { flag: "--refresh-schema", description: "Bypass cached schema and refresh from Slack" },
-      { flag: "--verbose", description: "Include Slack error payloads" }
+      { flag: "--verbose", description: "Include Slack and Linear error payloads" }
     ],
     env: [
       { name: "SLACK_TOKEN", description: "Default token" },
@@ -33,6 +34,7 @@ function getCapabilities() {
       { name: "LINEAR_TEAM_KEY", description: "Default Linear team key (e.g. PRO)" },
       { name: "LINEAR_CYCLE_ID", description: "Default Linear cycle ID" },
       { name: "ML_AGENT_PROJECT", description: "Override project name for cache/config paths" },
+      { name: "ML_AGENT_PROFILE", description: "Default profile when --profile is not given" },
       { name: "ML_AGENT_SCHEMA_PATH", description: "Default schema JSON path (legacy Slack Lists)" },
       {
         name: "SLACK_LIST_DEFAULT_CHANNEL",
@@ -45,6 +47,10 @@ function getCapabilities() {
       {
         name: "ML_AGENT_THREAD_MAP_PATH",
         description: "Optional path to threads.json (item thread mapping)"
+      },
+      {
+        name: "ML_AGENT_DIRECTORY_TTL_HOURS",
+        description: "Slack user/channel directory cache TTL in hours (default 24)"
       }
     ],
     project_config: {
@@ -56,6 +62,10 @@ function getCapabilities() {
       description:
         "Cached schema per list ID (populated from list/item reads; uses $XDG_CONFIG_HOME when set)"
     },
+    directory_cache: {
+      path: "~/.config/ml-agent/projects/<project>/directory/<team-id>.json",
+      description: "Slack users/channels per workspace; a stale cache is refreshed before use"
+    },
     commands: [
       {
         command: "linear auth status",
@@ -91,7 +101,32 @@ function getCapabilities() {
           "--message-url <url>",
           "--thread-label <label>",
           "--thread-state <state>",
-          "--sync-state"
+          "--sync-state",
+          "--raw",
+          "--blocks <json>",
+          "--template <name>",
+          "--at <time>",
+          "--notify-assignee",
+          "--mention-assignee"
+        ]
+      },
+      {
+        command: "linear sync-state [issue-id]",
+        description: "Reverse-map Linear states through state_map into stored thread states",
+        args: ["issue-id"],
+        options: ["--all", "--announce", "--dry-run"]
+      },
+      {
+        command: "linear mirror <issue-id>",
+        description: "Copy unmirrored Slack thread replies into Linear comments (idempotent via mirrored_ts)",
+        args: ["issue-id"],
+        options: [
+          "--message-url <url>",
+          "--thread-label <label>",
+          "--limit <count>",
+          "--include-bots",
+          "--raw",
+          "--dry-run"
         ]
       },
       {
@@ -104,7 +139,12 @@ function getCapabilities() {
           "--message-url <url>",
           "--thread-label <label>",
           "--limit <count>",
-          "--compact"
+          "--compact",
+          "--since <time>",
+          "--cursor <cursor>",
+          "--unread",
+          "--after-last-seen",
+          "--no-mark-read"
         ]
       },
       {
@@ -129,9 +169,30 @@ function getCapabilities() {
       },
       {
         command: "issues list",
-        description: "List Linear issues for a team",
+        description: "List Linear issues for a team (filters are applied server-side)",
+        args: [],
+        options: [
+          "--team <team-id>",
+          "--cycle <cycle-id>",
+          "--state <state>",
+          "--assignee <assignee>",
+          "--unassigned",
+          "--creator <creator>",
+          "--label <labels>",
+          "--priority <priority>",
+          "--project <project>",
+          "--created-after <time>",
+          "--updated-after <time>",
+          "--limit <count>",
+          "--cursor <cursor>",
+          "--compact"
+        ]
+      },
+      {
+        command: "issues mine",
+        description: "List the viewer's assigned issues across teams, grouped by state type and sorted by priority",
         args: [],
-        options: ["--team <team-id>", "--cycle <cycle-id>", "--state <state>", "--assignee <assignee>", "--limit <count>", "--compact"]
+        options: ["--cycle <cycle>", "--state-type <types>", "--include-done", "--limit <count>", "--compact"]
       },
       {
         command: "issues search <query>",
@@ -141,10 +202,28 @@ function getCapabilities() {
       },
       {
         command: "issues get <issue-id>",
-        description: "Get a Linear issue",
+        description: "Get a Linear issue (with parent, children and relations)",
+        args: ["issue-id"],
+        options: []
+      },
+      {
+        command: "issues children <issue-id>",
+        description: "List sub-issues (and the parent) of a Linear issue",
         args: ["issue-id"],
         options: []
       },
+      {
+        command: "issues relate <issue-id>",
+        description: "Create a blocks/blocked-by/related/duplicate relation",
+        args: ["issue-id"],
+        options: ["--blocks <issue-id>", "--blocked-by <issue-id>", "--related <issue-id>", "--duplicate-of <issue-id>"]
+      },
+      {
+        command: "issues unrelate <issue-id>",
+        description: "Remove a relation between two issues",
+        args: ["issue-id"],
+        options: ["--blocks <issue-id>", "--blocked-by <issue-id>", "--related <issue-id>", "--duplicate-of <issue-id>"]
+      },
       {
         command: "issues comments <issue-id>",
         description: "List comments for a Linear issue",
@@ -153,15 +232,55 @@ function getCapabilities() {
       },
       {
         command: "issues create",
-        description: "Create a Linear issue",
+        description: "Create a Linear issue (--assignee also accepts @slack-handle via the identity map)",
         args: [],
-        options: ["--team <team-id>", "--title <title>", "--description <text>", "--state <state>", "--assignee <assignee>", "--cycle <cycle-id>"]
+        options: [
+          "--team <team-id>",
+          "--title <title>",
+          "--description <text>",
+          "--state <state>",
+          "--assignee <assignee>",
+          "--cycle <cycle-id>",
+          "--label <labels>",
+          "--priority <priority>",
+          "--estimate <points>",
+          "--project <project>",
+          "--parent <issue-id>",
+          "--due <date>"
+        ]
       },
       {
         command: "issues update <issue-id>",
         description: "Update a Linear issue",
         args: ["issue-id"],
-        options: ["--team <team-id>", "--title <title>", "--description <text>", "--state <state>", "--assignee <assignee>", "--cycle <cycle-id>"]
+        options: [
+          "--team <team-id>",
+          "--title <title>",
+          "--description <text>",
+          "--state <state>",
+          "--assignee <assignee>",
+          "--cycle <cycle-id>",
+          "--label <labels>",
+          "--add-label <labels>",
+          "--remove-label <labels>",
+          "--priority <priority>",
+          "--estimate <points>",
+          "--project <project>",
+          "--parent <issue-id>",
+          "--due <date>"
+        ]
+      },
+      {
+        command: "issues start|review|done|cancel|reopen <issue-id>",
+        description: "Move an issue to the team's workflow state for that transition (by state type and position)",
+        args: ["issue-id"],
+        options: ["--state <state>", "--comment <text>"]
+      },
+      {
+        command: "issues batch",
+        description: "Apply a JSONL file of issue operations (create|update|comment|attach); lookups are shared across lines",
+        args: [],
+        options: ["--file <path>", "--dry-run", "--stop-on-error"]
       },
       {
         command: "issues attach <issue-id> <url>",
@@ -169,6 +288,12 @@ function getCapabilities() {
         args: ["issue-id", "url"],
         options: ["--title <text>", "--metadata <json>"]
       },
+      {
+        command: "issues timeline <issue-id>",
+        description: "Merge Linear history, comments, attachments and Slack thread replies into one chronological stream",
+        args: ["issue-id"],
+        options: ["--limit <count>", "--since <time>", "--no-slack"]
+      },
       {
         command: "issues status <issue-id>",
         description: "Summarize issue state + thread state + last comment",
@@ -177,9 +302,9 @@ function getCapabilities() {
       },
       {
         command: "issues comment <issue-id> <text>",
-        description: "Post a comment on a Linear issue (Markdown supported)",
+        description: "Post a comment on a Linear issue (Markdown supported; Slack markup and mentions are converted)",
         args: ["issue-id", "text"],
-        options: []
+        options: ["--raw"]
       },
       {
         command: "setup",
@@ -195,7 +320,7 @@ function getCapabilities() {
       },
       {
         command: "auth status",
-        description: "Verify token works",
+        description: "Verify token works; lists Slack and Linear status (and credential source) for every profile",
         args: [],
         options: []
       },
@@ -290,7 +415,15 @@ function getCapabilities() {
         command: "comment <list-id> <item-id> <text>",
         description: "Post comment to item thread",
         args: ["list-id", "item-id", "text"],
-        options: ["--channel <channel>", "--thread-ts <ts>", "--message-url <url>"]
+        options: [
+          "--channel <channel>",
+          "--thread-ts <ts>",
+          "--message-url <url>",
+          "--blocks <json>",
+          "--template <name>",
+          "--issue <issue-id>",
+          "--at <time>"
+        ]
       },
       {
         command: "comment-edit <channel> <ts> <text>",
@@ -302,7 +435,19 @@ function getCapabilities() {
         command: "comments <list-id> <item-id>",
         description: "Fetch item comment thread (requires history scopes)",
         args: ["list-id", "item-id"],
-        options: ["--channel <channel>", "--thread-ts <ts>", "--message-url <url>", "--limit <count>", "--compact"]
+        options: [
+          "--channel <channel>",
+          "--thread-ts <ts>",
+          "--message-url <url>",
+          "--limit <count>",
+          "--compact",
+          "--since <time>",
+          "--cursor <cursor>",
+          "--unread",
+          "--after-last-seen",
+          "--no-mark-read",
+          "--reactions"
+        ]
       },
       {
         command: "threads get <list-id> <item-id>",
@@ -338,6 +483,24 @@ function getCapabilities() {
         args: ["list-id", "item-id", "text"],
         options: ["--message-url <url>", "--channel <channel>", "--thread-ts <ts>", "--ts <message-ts>"]
       },
+      {
+        command: "threads approval <list-id|issue-id> [item-id]",
+        description: "Report approved/rejected/pending from reactions on the thread root (convention in slack.approval)",
+        args: ["list-id|issue-id", "item-id"],
+        options: ["--message-url <url>", "--channel <channel>", "--thread-ts <ts>", "--thread-label <label>"]
+      },
+      {
+        command: "react add|remove <channel> <ts> <emoji>",
+        description: "Add or remove a reaction on a message",
+        args: ["channel", "ts", "emoji"],
+        options: []
+      },
+      {
+        command: "react list <channel> <ts>",
+        description: "List reactions on a message",
+        args: ["channel", "ts"],
+        options: []
+      },
       {
         command: "slack history <channel>",
         description: "List messages from a channel",
@@ -365,14 +528,104 @@ function getCapabilities() {
       },
       {
         command: "ask <channel> <text>",
-        description: "Ask a question in a channel",
+        description: "Ask a question in a channel (omit the channel with --dm)",
         args: ["channel", "text"],
-        options: ["--user <user>"]
+        options: [
+          "--user <user>",
+          "--blocks <json>",
+          "--template <name>",
+          "--issue <issue-id>",
+          "--wait",
+          "--timeout <duration>",
+          "--interval <duration>",
+          "--ignore-bots [ids]",
+          "--dm <user>",
+          "--ephemeral <user>"
+        ]
       },
       {
         command: "post <channel> <text>",
-        description: "Post a message to a channel",
+        description: "Post a message to a channel (omit the channel with --dm)",
         args: ["channel", "text"],
+        options: [
+          "--blocks <json>",
+          "--template <name>",
+          "--issue <issue-id>",
+          "--at <time>",
+          "--dm <user>",
+          "--ephemeral <user>"
+        ]
+      },
+      {
+        command: "scheduled list",
+        description: "List pending scheduled messages with their recorded item or issue",
+        args: [],
+        options: ["--channel <channel>", "--limit <count>", "--cursor <cursor>"]
+      },
+      {
+        command: "scheduled cancel <id>",
+        description: "Cancel a scheduled message and drop it from the thread map",
+        args: ["id"],
+        options: ["--channel <channel>"]
+      },
+      {
+        command: "directory refresh [kind]",
+        description: "Re-fetch the cached Slack users and/or channels for this workspace",
+        args: ["kind"],
+        options: []
+      },
+      {
+        command: "directory show [kind]",
+        description: "Show directory cache freshness (stale, count, fetched_at)",
+        args: ["kind"],
+        options: ["--entries"]
+      },
+      {
+        command: "directory clear [kind]",
+        description: "Delete the cached directory for this workspace",
+        args: ["kind"],
+        options: []
+      },
+      {
+        command: "users find <query>",
+        description: "Search Slack users (compact: id, name, real_name, email, tz, is_bot, is_member)",
+        args: ["query"],
+        options: ["--limit <count>", "--linear"]
+      },
+      {
+        command: "users get <user>",
+        description: "Get a Slack user by ID, @handle or email",
+        args: ["user"],
+        options: ["--linear"]
+      },
+      {
+        command: "channels find <query>",
+        description: "Search Slack channels (compact: id, name, is_private, is_member)",
+        args: ["query"],
+        options: ["--limit <count>", "--member"]
+      },
+      {
+        command: "channels get <channel>",
+        description: "Get a Slack channel by ID or #name",
+        args: ["channel"],
+        options: []
+      },
+      {
+        command: "identity list",
+        description: "List Slack ↔ Linear user links (config overrides first, then matching emails)",
+        args: [],
+        options: ["--unmatched"]
+      },
+      {
+        command: "identity set <slack-user> <linear-user>",
+        description: "Store an identity override in .ml-agent.config.json",
+        args: ["slack-user", "linear-user"],
+        options: []
+      },
+      {
+        command: "identity verify",
+        description: "Report broken or conflicting overrides and Linear users without a Slack match",
+        args: [],
         options: []
       },
       {
@@ -0,0 +1,167 @@
+import { Command } from "commander";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { resolveProjectConfigTargetPath, resolveToken } from "../lib/config";
+import { getDirectory } from "../lib/directory";
+import { buildIdentityMap, findLinearUser } from "../lib/identity";
+import { fetchUsers, getLinearClient } from "../lib/linear-service";
+import { resolveUserId } from "../lib/resolvers";
+import { SlackListsClient } from "../lib/slack-client";
+import { getGlobalOptions } from "../utils/command";
+import { handleCommandError } from "../utils/errors";
+import { outputJson } from "../utils/output";
+
+export function registerIdentityCommands(program: Command): void {
+  const identity = program
+    .command("identity")
+    .description("Map Slack users to Linear users (auto by email, overrides in .ml-agent.config.json)");
+
+  identity
+    .command("list")
+    .description("List Slack ↔ Linear identity links")
+    .option("--unmatched", "Only list Linear users without a Slack match", false)
+    .action(async (options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const slack = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const { links, unmatched } = await buildIdentityMap(slack, getLinearClient());
+        const unmatchedUsers = unmatched.map((user) => ({
+          linear_id: user.id,
+          linear_name: user.displayName ?? user.name ?? null,
+          email: user.email ?? null
+        }));
+        outputJson({
+          ok: true,
+          count: options.unmatched ? unmatchedUsers.length : links.length,
+          ...(options.unmatched ? {} : { identities: links }),
+          unmatched: unmatchedUsers
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  identity
+    .command("set")
+    .description("Override the Linear user for a Slack user")
+    .argument("<slack-user>", "Slack user ID, @handle or email")
+    .argument("<linear-user>", "Linear user ID, email, name or display name")
+    .action(async (slackInput: string, linearInput: string, _options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const slack = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const slackId = await resolveUserId(slack, slackInput);
+        const linearUser = findLinearUser(await fetchUsers(getLinearClient()), linearInput);
+        if (!linearUser?.id) {
+          throw new Error(`Unable to resolve Linear user: ${linearInput}`);
+        }
+        const configPath = await writeIdentityOverride(slackId, linearUser.id);
+        outputJson({
+          ok: true,
+          slack_id: slackId,
+          linear_id: linearUser.id,
+          linear_name: linearUser.displayName ?? linearUser.name ?? null,
+          config_path: configPath
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  identity
+    .command("verify")
+    .description("Check identity overrides and report Linear users without a Slack match")
+    .action(async (_options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const slack = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const linear = getLinearClient();
+        const { links, unmatched, overrides } = await buildIdentityMap(slack, linear);
+        const slackUsers = new Map((await getDirectory(slack, "users")).map((user) => [user.id, user]));
+        const linearUsers = new Map((await fetchUsers(linear)).map((user) => [user.id, user]));
+        const problems: Array<Record<string, unknown>> = [];
+
+        for (const override of overrides) {
+          const entry = { slack: override.slack, linear: override.linear };
+          if (override.error) {
+            problems.push({ type: "unresolved_override", ...entry, reason: override.error });
+            continue;
+          }
+          const slackUser = slackUsers.get(override.slack_id!);
+          const linearUser = linearUsers.get(override.linear_id!);
+          if (slackUser?.deleted) {
+            problems.push({ type: "slack_user_deactivated", ...entry, slack_id: override.slack_id });
+          }
+          const slackEmail = slackUser?.email?.toLowerCase();
+          const linearEmail = linearUser?.email?.toLowerCase();
+          if (slackEmail && linearEmail && slackEmail !== linearEmail) {
+            problems.push({ type: "email_mismatch", ...entry, slack_email: slackEmail, linear_email: linearEmail });
+          }
+        }
+
+        for (const key of ["slack_id", "linear_id"] as const) {
+          const seen = new Map<string, number>();
+          for (const override of overrides) {
+            const id = override[key];
+            if (id) {
+              seen.set(id, (seen.get(id) ?? 0) + 1);
+            }
+          }
+          for (const [id, count] of seen) {
+            if (count > 1) {
+              problems.push({ type: "duplicate_override", [key]: id, count });
+            }
+          }
+        }
+
+        for (const user of unmatched) {
+          problems.push({
+            type: "unmatched_linear_user",
+            linear_id: user.id,
+            linear_name: user.displayName ?? user.name ?? null,
+            email: user.email ?? null
+          });
+        }
+
+        outputJson({
+          ok: true,
+          valid: problems.length === 0,
+          linked: links.length,
+          overrides: overrides.length,
+          problems
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+}
+
+async function writeIdentityOverride(slackId: string, linearId: string): Promise<string> {
+  const configPath = resolveProjectConfigTargetPath();
+  let config: Record<string, unknown> = {};
+  try {
+    const raw = await fs.readFile(configPath, "utf-8");
+    config = JSON.parse(raw) as Record<string, unknown>;
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  const existing = Array.isArray(config.identities)
+    ? (config.identities as Array<{ slack?: string; linear?: string }>)
+    : [];
+  config.identities = [
+    ...existing.filter((entry) => entry.slack !== slackId && entry.linear !== linearId),
+    { slack: slackId, linear: linearId }
+  ];
+
+  await fs.mkdir(path.dirname(configPath), { recursive: true });
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2), "utf-8");
+  return configPath;
+}
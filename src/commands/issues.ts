@@ -1,273 +1,51 @@
 import { Command } from "commander";
+import { promises as fs } from "fs";
 
-import {
-  resolveLinearApiKey,
-  resolveLinearCycleId,
-  resolveLinearTeamId,
-  resolveLinearTeamKey
-} from "../lib/config";
+import { resolveLinearCycleId, resolveLinearTransitions, resolveToken, TokenOptions } from "../lib/config";
+import { isSlackUserReference, linearIdForSlackUser } from "../lib/identity";
+import { fetchThreadReplies, loadIssueThreads } from "../lib/issue-threads";
+import { extractSlackMentions, slackToMarkdown } from "../lib/markup";
 import { LinearClient } from "../lib/linear-client";
+import {
+  createAttachment,
+  createComment,
+  createIssue,
+  createIssueRelation,
+  deleteIssueRelation,
+  fetchIssue,
+  fetchIssueComments,
+  fetchIssueHistory,
+  fetchTeamIssuesPage,
+  fetchViewerIssuesPage,
+  getLinearClient,
+  IssueFilter,
+  IssueTransition,
+  ISSUE_TRANSITIONS,
+  LinearComment,
+  LinearIssue,
+  LinearIssueHistory,
+  LinearIssueRef,
+  LinearIssueRelation,
+  linearThreadScope,
+  looksLikeId,
+  parsePriority,
+  resolveAssigneeId,
+  resolveIssueId,
+  resolveLabelIds,
+  resolveProjectId,
+  resolveStateId,
+  resolveTeamId,
+  resolveTransitionState,
+  searchIssues,
+  updateIssue
+} from "../lib/linear-service";
+import { SlackListsClient } from "../lib/slack-client";
+import { slackTsToIso } from "../lib/slack-time";
 import { getThreadEntry } from "../lib/thread-map";
 import { getGlobalOptions } from "../utils/command";
 import { handleCommandError } from "../utils/errors";
 import { outputJson } from "../utils/output";
 
-const TEAM_ISSUES_QUERY = `
-  query TeamIssues($teamId: String!, $first: Int!, $after: String) {
-    team(id: $teamId) {
-      id
-      name
-      issues(first: $first, after: $after, orderBy: updatedAt) {
-        nodes {
-          id
-          identifier
-          title
-          description
-          url
-          state { id name type }
-          assignee { id name email }
-          cycle { id name }
-          updatedAt
-          createdAt
-        }
-        pageInfo {
-          hasNextPage
-          endCursor
-        }
-      }
-    }
-  }
-`;
-
-const ISSUE_QUERY = `
-  query Issue($id: String!) {
-    issue(id: $id) {
-      id
-      identifier
-      title
-      description
-      url
-      team { id name }
-      state { id name type }
-      assignee { id name email }
-      cycle { id name }
-      updatedAt
-      createdAt
-    }
-  }
-`;
-
-const ISSUE_SEARCH_QUERY = `
-  query IssueSearch($query: String!, $first: Int!) {
-    issueSearch(query: $query, first: $first) {
-      nodes {
-        id
-        identifier
-        title
-        description
-        url
-        team { id name }
-        state { id name type }
-        assignee { id name email }
-        cycle { id name }
-        updatedAt
-        createdAt
-      }
-    }
-  }
-`;
-
-const ISSUE_CREATE_MUTATION = `
-  mutation IssueCreate($input: IssueCreateInput!) {
-    issueCreate(input: $input) {
-      success
-      issue {
-        id
-        identifier
-        title
-        url
-      }
-    }
-  }
-`;
-
-const ISSUE_UPDATE_MUTATION = `
-  mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
-    issueUpdate(id: $id, input: $input) {
-      success
-      issue {
-        id
-        identifier
-        title
-        url
-      }
-    }
-  }
-`;
-
-const ISSUE_COMMENTS_QUERY = `
-  query IssueComments($id: String!, $first: Int!, $after: String) {
-    issue(id: $id) {
-      id
-      comments(first: $first, after: $after) {
-        nodes {
-          id
-          body
-          createdAt
-          updatedAt
-          user {
-            id
-            name
-            displayName
-            email
-          }
-        }
-        pageInfo {
-          hasNextPage
-          endCursor
-        }
-      }
-    }
-  }
-`;
-
-const COMMENT_CREATE_MUTATION = `
-  mutation CommentCreate($input: CommentCreateInput!) {
-    commentCreate(input: $input) {
-      success
-      comment {
-        id
-        body
-        url
-      }
-    }
-  }
-`;
-
-const ATTACHMENT_CREATE_MUTATION = `
-  mutation AttachmentCreate($input: AttachmentCreateInput!) {
-    attachmentCreate(input: $input) {
-      success
-      attachment {
-        id
-        url
-      }
-    }
-  }
-`;
-
-const TEAM_STATES_QUERY = `
-  query TeamStates($teamId: String!) {
-    team(id: $teamId) {
-      id
-      name
-      states {
-        nodes {
-          id
-          name
-          type
-          position
-        }
-      }
-    }
-  }
-`;
-
-const USERS_QUERY = `
-  query Users($first: Int!) {
-    users(first: $first) {
-      nodes {
-        id
-        name
-        displayName
-        email
-      }
-    }
-  }
-`;
-
-const TEAMS_QUERY = `
-  query Teams {
-    teams {
-      nodes {
-        id
-        key
-        name
-      }
-    }
-  }
-`;
-
-type IssueNode = {
-  id: string;
-  identifier?: string;
-  title?: string;
-  description?: string;
-  url?: string;
-  team?: { id?: string; name?: string };
-  state?: { id?: string; name?: string; type?: string };
-  assignee?: { id?: string; name?: string; email?: string };
-  cycle?: { id?: string; name?: string };
-  updatedAt?: string;
-  createdAt?: string;
-};
-
-type IssueSearchResponse = {
-  issueSearch?: {
-    nodes?: IssueNode[];
-  };
-};
-
-type TeamIssuesResponse = {
-  team?: {
-    id?: string;
-    name?: string;
-    issues?: {
-      nodes?: IssueNode[];
-      pageInfo?: { hasNextPage?: boolean; endCursor?: string };
-    };
-  };
-};
-
-type TeamStatesResponse = {
-  team?: {
-    id?: string;
-    name?: string;
-    states?: { nodes?: Array<{ id?: string; name?: string; type?: string }> };
-  };
-};
-
-type UsersResponse = {
-  users?: { nodes?: Array<{ id?: string; name?: string; displayName?: string; email?: string }> };
-};
-
-type TeamsResponse = {
-  teams?: { nodes?: Array<{ id?: string; key?: string; name?: string }> };
-};
-
-type CommentNode = {
-  id?: string;
-  body?: string;
-  createdAt?: string;
-  updatedAt?: string;
-  user?: { id?: string; name?: string; displayName?: string; email?: string };
-};
-
-type IssueCommentsPageInfo = {
-  hasNextPage?: boolean;
-  endCursor?: string;
-};
-
-type IssueCommentsResponse = {
-  issue?: {
-    id?: string;
-    comments?: {
-      nodes?: CommentNode[];
-      pageInfo?: IssueCommentsPageInfo;
-    };
-  };
-};
-
 export function registerIssuesCommands(program: Command): void {
   const issues = program.command("issues").description("Linear issue operations");
 
@@ -277,8 +55,16 @@ export function registerIssuesCommands(program: Command): void {
     .option("--team <team-id>", "Team ID (defaults to LINEAR_TEAM_ID)")
     .option("--cycle <cycle-id>", "Cycle ID (defaults to LINEAR_CYCLE_ID)")
     .option("--state <state>", "State name or ID")
-    .option("--assignee <assignee>", "Assignee email/name/ID")
+    .option("--assignee <assignee>", "Assignee email/name/ID, or @slack-handle via the identity map")
+    .option("--unassigned", "Only issues without an assignee", false)
+    .option("--creator <creator>", "Creator email/name/ID")
+    .option("--label <labels>", "Label name(s), comma-separated (issues must have all)")
+    .option("--priority <priority>", "Priority 0-4 or none|urgent|high|medium|low")
+    .option("--project <project>", "Project name or ID")
+    .option("--created-after <time>", "Created after (ISO date or relative like 7d, 12h)")
+    .option("--updated-after <time>", "Updated after (ISO date or relative like 7d, 12h)")
     .option("--limit <count>", "Maximum issues to return", "50")
+    .option("--cursor <cursor>", "Resume listing from a previous next_cursor")
     .option("--compact", "Return only id/identifier/title/state", false)
     .action(async (options, command: Command) => {
       const globals = getGlobalOptions(command);
@@ -288,33 +74,46 @@ export function registerIssuesCommands(program: Command): void {
         const cycleId = resolveCycleId(options.cycle);
         const limit = parseLimit(options.limit);
 
-        const collected: IssueNode[] = [];
-        let cursor: string | undefined = undefined;
+        const assigneeInput = options.assignee as string | undefined;
+        const filter = buildIssueFilter({
+          state: options.state as string | undefined,
+          // Slack handles/IDs go through the identity map; everything else is matched by Linear's filter.
+          assignee:
+            assigneeInput && isSlackUserReference(assigneeInput)
+              ? await resolveIssueAssignee(client, assigneeInput, globals)
+              : assigneeInput,
+          unassigned: Boolean(options.unassigned),
+          creator: options.creator as string | undefined,
+          labels: splitList(options.label as string | undefined),
+          priority: options.priority as string | undefined,
+          project: options.project as string | undefined,
+          cycle: cycleId,
+          createdAfter: options.createdAfter as string | undefined,
+          updatedAfter: options.updatedAfter as string | undefined
+        });
+        const pageSize = Math.min(50, limit);
+
+        const collected: LinearIssue[] = [];
+        let cursor = options.cursor as string | undefined;
+        let nextCursor: string | null = null;
+        let pagesFetched = 0;
 
         while (collected.length < limit) {
-          const batchSize = Math.min(50, limit);
-          const result: TeamIssuesResponse = await client.request<TeamIssuesResponse>(TEAM_ISSUES_QUERY, {
-            teamId,
-            first: batchSize,
-            after: cursor
+          const page = await fetchTeamIssuesPage(client, teamId, {
+            first: Math.min(pageSize, limit - collected.length),
+            after: cursor,
+            filter
           });
+          pagesFetched += 1;
+          const { issues: nodes, cursors, pageInfo } = page;
+          collected.push(...nodes);
 
-          const nodes: IssueNode[] = result.team?.issues?.nodes ?? [];
-          const filtered = nodes.filter((issue: IssueNode) =>
-            matchesFilters(issue, {
-              state: options.state as string | undefined,
-              assignee: options.assignee as string | undefined,
-              cycle: cycleId ?? (options.cycle as string | undefined)
-            })
-          );
-
-          collected.push(...filtered);
-
-          const pageInfo = result.team?.issues?.pageInfo;
-          if (!pageInfo?.hasNextPage || !pageInfo?.endCursor) {
+          if (!pageInfo.hasNextPage || !pageInfo.endCursor) {
+            nextCursor = null;
             break;
           }
           cursor = pageInfo.endCursor;
+          nextCursor = cursors[cursors.length - 1] || cursor;
         }
 
         const trimmed = collected.slice(0, limit);
@@ -350,7 +149,11 @@ export function registerIssuesCommands(program: Command): void {
         outputJson({
           ok: true,
           team_id: teamId,
+          filter,
           issue_count: trimmed.length,
+          pages_fetched: pagesFetched,
+          has_more: Boolean(nextCursor),
+          next_cursor: nextCursor,
           issues: payload
         });
       } catch (error) {
@@ -358,6 +161,90 @@ export function registerIssuesCommands(program: Command): void {
       }
     });
 
+  issues
+    .command("mine")
+    .description("List issues assigned to the API key's user across teams, grouped by state type")
+    .option("--cycle <cycle>", "Only issues in a cycle (current or cycle ID)")
+    .option("--state-type <types>", "Only these state types, comma-separated (e.g. started,unstarted)")
+    .option("--include-done", "Include completed and canceled issues", false)
+    .option("--limit <count>", "Maximum issues to return", "100")
+    .option("--compact", "Return only id/identifier/title/state/priority/thread", false)
+    .action(async (options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      try {
+        const client = getLinearClient();
+        const limit = parseLimit(options.limit, 100);
+        const filter = buildViewerIssueFilter({
+          cycle: options.cycle as string | undefined,
+          stateTypes: splitList(options.stateType as string | undefined),
+          includeDone: Boolean(options.includeDone)
+        });
+
+        // Linear only orders by updatedAt, so walk one priority at a time in work-queue order and stop
+        // one issue past --limit; that keeps requests bounded even with --include-done.
+        const collected: LinearIssue[] = [];
+        for (const priority of WORK_QUEUE_PRIORITIES) {
+          let cursor: string | undefined;
+          do {
+            const page = await fetchViewerIssuesPage(client, {
+              first: Math.min(50, limit + 1 - collected.length),
+              after: cursor,
+              filter: { ...filter, priority: { eq: priority } }
+            });
+            collected.push(...page.issues);
+            cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+          } while (cursor && collected.length <= limit);
+          if (collected.length > limit) {
+            break;
+          }
+        }
+
+        const hasMore = collected.length > limit;
+        const sorted = collected.sort(compareWorkQueue).slice(0, limit);
+        const threads = await Promise.all(
+          sorted.map((issue) => getThreadEntry(linearThreadScope(issue.team?.id), issue.id))
+        );
+
+        const groups: Record<string, unknown[]> = {};
+        sorted.forEach((issue, index) => {
+          const type = issue.state?.type ?? "unknown";
+          const thread = threads[index] ?? null;
+          const entry = options.compact
+            ? {
+                id: issue.id,
+                identifier: issue.identifier,
+                title: issue.title,
+                team: issue.team?.key,
+                state: issue.state?.name,
+                priority: issue.priority ?? 0,
+                updated_at: issue.updatedAt,
+                latest_thread: thread
+                  ? { permalink: thread.permalink, channel: thread.channel, ts: thread.ts, state: thread.state }
+                  : null
+              }
+            : { ...issue, latest_thread: thread };
+          (groups[type] ??= []).push(entry);
+        });
+
+        const orderedGroups: Record<string, unknown[]> = {};
+        for (const type of [...STATE_TYPE_ORDER, ...Object.keys(groups)]) {
+          if (groups[type] && !orderedGroups[type]) {
+            orderedGroups[type] = groups[type];
+          }
+        }
+
+        outputJson({
+          ok: true,
+          filter,
+          issue_count: sorted.length,
+          has_more: hasMore,
+          groups: orderedGroups
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
   issues
     .command("search")
     .description("Search Linear issues with a query string")
@@ -369,12 +256,7 @@ export function registerIssuesCommands(program: Command): void {
       try {
         const client = getLinearClient();
         const limit = parseLimit(options.limit, 25);
-        const result = await client.request<IssueSearchResponse>(ISSUE_SEARCH_QUERY, {
-          query,
-          first: Math.min(limit, 50)
-        });
-
-        const issues = result.issueSearch?.nodes ?? [];
+        const issues = await searchIssues(client, query, Math.min(limit, 50));
         const trimmed = issues.slice(0, limit);
 
         const payload = options.compact
@@ -407,11 +289,102 @@ export function registerIssuesCommands(program: Command): void {
       const globals = getGlobalOptions(command);
       try {
         const client = getLinearClient();
-        const result = await client.request<{ issue?: IssueNode }>(ISSUE_QUERY, { id: issueId });
-        if (!result.issue) {
-          throw new Error("Issue not found");
+        const issue = await fetchIssue(client, issueId);
+        outputJson({ ok: true, issue, relations: summarizeRelations(issue) });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  issues
+    .command("children")
+    .description("List sub-issues of a Linear issue")
+    .argument("<issue-id>", "Issue ID or identifier")
+    .action(async (issueId: string, _options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      try {
+        const client = getLinearClient();
+        const issue = await fetchIssue(client, issueId);
+        const children = (issue.children?.nodes ?? []).map((child) => ({
+          ...compactIssueRef(child),
+          assignee: child.assignee?.email ?? child.assignee?.name ?? null
+        }));
+        outputJson({
+          ok: true,
+          issue_id: issue.id,
+          identifier: issue.identifier,
+          parent: issue.parent ? compactIssueRef(issue.parent) : null,
+          child_count: children.length,
+          children
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  issues
+    .command("relate")
+    .description("Create a relation between two Linear issues")
+    .argument("<issue-id>", "Issue ID or identifier")
+    .option("--blocks <issue-id>", "This issue blocks the other issue")
+    .option("--blocked-by <issue-id>", "This issue is blocked by the other issue")
+    .option("--related <issue-id>", "Mark the issues as related")
+    .option("--duplicate-of <issue-id>", "This issue duplicates the other issue")
+    .action(async (issueId: string, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      try {
+        const client = getLinearClient();
+        const relation = parseRelationOption(options);
+        const [sourceId, otherId] = await Promise.all([
+          resolveIssueId(client, issueId),
+          resolveIssueId(client, relation.other)
+        ]);
+        const input =
+          relation.kind === "blocked_by"
+            ? { issueId: otherId!, relatedIssueId: sourceId!, type: "blocks" }
+            : { issueId: sourceId!, relatedIssueId: otherId!, type: relation.type };
+
+        const issueRelationCreate = await createIssueRelation(client, input);
+        outputJson({
+          ok: true,
+          issue_id: issueId,
+          relation: relation.kind,
+          other_issue_id: relation.other,
+          result: { issueRelationCreate }
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  issues
+    .command("unrelate")
+    .description("Remove a relation between two Linear issues")
+    .argument("<issue-id>", "Issue ID or identifier")
+    .option("--blocks <issue-id>", "Remove a blocks relation")
+    .option("--blocked-by <issue-id>", "Remove a blocked-by relation")
+    .option("--related <issue-id>", "Remove a related relation")
+    .option("--duplicate-of <issue-id>", "Remove a duplicate relation")
+    .action(async (issueId: string, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      try {
+        const client = getLinearClient();
+        const relation = parseRelationOption(options);
+        const issue = await fetchIssue(client, issueId);
+        const relationId = findRelationId(issue, relation);
+        if (!relationId) {
+          throw new Error(`No ${relation.kind} relation between ${issueId} and ${relation.other}`);
         }
-        outputJson({ ok: true, issue: result.issue });
+
+        const issueRelationDelete = await deleteIssueRelation(client, relationId);
+        outputJson({
+          ok: true,
+          issue_id: issueId,
+          relation: relation.kind,
+          other_issue_id: relation.other,
+          relation_id: relationId,
+          result: { issueRelationDelete }
+        });
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
@@ -458,17 +431,17 @@ export function registerIssuesCommands(program: Command): void {
     .description("Post a comment on a Linear issue (Markdown supported)")
     .argument("<issue-id>", "Issue ID or identifier")
     .argument("<text>", "Comment text (Markdown)")
-    .action(async (issueId: string, text: string, _options, command: Command) => {
+    .option("--raw", "Post the text as-is without converting Slack markup", false)
+    .action(async (issueId: string, text: string, options, command: Command) => {
       const globals = getGlobalOptions(command);
       try {
         const client = getLinearClient();
-        const result = await client.request<Record<string, unknown>>(COMMENT_CREATE_MUTATION, {
-          input: {
-            issueId,
-            body: text
-          }
+        const body = options.raw ? text : await slackCommentToMarkdown(client, text, globals);
+        const commentCreate = await createComment(client, {
+          issueId,
+          body
         });
-        outputJson({ ok: true, result });
+        outputJson({ ok: true, result: { commentCreate } });
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
@@ -486,18 +459,118 @@ export function registerIssuesCommands(program: Command): void {
       try {
         const client = getLinearClient();
         const metadata = parseMetadata(options.metadata as string | undefined);
-        const input: Record<string, unknown> = {
-          issueId,
-          url,
-          title: options.title ?? url,
-          metadata: {
-            source: "ml-agent",
-            ...metadata
+        const input = buildAttachmentInput(issueId, url, options.title as string | undefined, metadata);
+
+        const attachmentCreate = await createAttachment(client, input);
+        outputJson({ ok: true, result: { attachmentCreate } });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  issues
+    .command("timeline")
+    .description("Merge Linear history, comments, attachments and Slack thread replies chronologically")
+    .argument("<issue-id>", "Issue ID or identifier")
+    .option("--limit <count>", "Maximum entries to fetch per source", "100")
+    .option("--since <time>", "Only entries after this time (ISO date or relative like 7d, 12h)")
+    .option("--no-slack", "Skip Slack thread replies")
+    .action(async (issueId: string, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      try {
+        const client = getLinearClient();
+        const issue = await fetchIssue(client, issueId);
+        const limit = parseLimit(options.limit, 100);
+        const since = options.since ? parseDateFilter(options.since, "--since") : undefined;
+
+        const [historyResult, commentsResult] = await Promise.all([
+          fetchIssueHistory(client, issue.id, limit),
+          fetchIssueComments(client, issue.id, limit)
+        ]);
+
+        const entries: TimelineEntry[] = [
+          ...historyResult.history.flatMap(toHistoryEntry),
+          ...commentsResult.comments.map(
+            (comment): TimelineEntry => ({
+              source: "linear_comment",
+              at: comment.createdAt ?? "",
+              id: comment.id,
+              author: comment.user?.email ?? comment.user?.name ?? null,
+              body: comment.body
+            })
+          ),
+          ...(issue.attachments?.nodes ?? []).map(
+            (attachment): TimelineEntry => ({
+              source: "linear_attachment",
+              at: attachment.createdAt ?? "",
+              id: attachment.id,
+              title: attachment.title,
+              url: attachment.url
+            })
+          )
+        ];
+
+        const threads = await loadIssueThreads(linearThreadScope(issue.team?.id), issue, [
+          issue.id,
+          issue.identifier,
+          issueId
+        ]);
+        const slackErrors: Array<{ channel?: string; thread_ts?: string; error: string }> = [];
+        if (options.slack !== false && threads.length > 0) {
+          const slack = new SlackListsClient(resolveToken(globals));
+          for (const thread of threads) {
+            if (!thread.channel || !thread.ts) {
+              continue;
+            }
+            try {
+              const replies = await fetchThreadReplies(slack, thread.channel, thread.ts, limit);
+              for (const reply of replies) {
+                entries.push({
+                  source: "slack",
+                  at: slackTsToIso(reply.ts),
+                  ts: reply.ts,
+                  channel: thread.channel,
+                  thread_ts: thread.ts,
+                  thread_label: thread.label ?? null,
+                  user: reply.user ?? reply.bot_id ?? null,
+                  text: reply.text
+                });
+              }
+            } catch (error) {
+              slackErrors.push({
+                channel: thread.channel,
+                thread_ts: thread.ts,
+                error: (error as Error)?.message ?? String(error)
+              });
+            }
           }
-        };
+        }
+
+        const timeline = entries
+          .filter((entry) => !since || entry.at > since)
+          .sort((a, b) => a.at.localeCompare(b.at));
 
-        const result = await client.request<Record<string, unknown>>(ATTACHMENT_CREATE_MUTATION, { input });
-        outputJson({ ok: true, result });
+        outputJson({
+          ok: true,
+          issue_id: issue.id,
+          identifier: issue.identifier,
+          title: issue.title,
+          state: issue.state?.name,
+          since: since ?? null,
+          entry_count: timeline.length,
+          truncated: {
+            history: historyResult.hasNextPage,
+            comments: commentsResult.hasNextPage
+          },
+          threads: threads.map((thread) => ({
+            channel: thread.channel,
+            ts: thread.ts,
+            label: thread.label,
+            permalink: thread.permalink
+          })),
+          slack_errors: slackErrors,
+          timeline
+        });
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
@@ -550,44 +623,21 @@ export function registerIssuesCommands(program: Command): void {
     .option("--title <title>", "Issue title")
     .option("--description <text>", "Issue description")
     .option("--state <state>", "State name or ID")
-    .option("--assignee <assignee>", "Assignee email/name/ID")
+    .option("--assignee <assignee>", "Assignee email/name/ID, or @slack-handle via the identity map")
     .option("--cycle <cycle-id>", "Cycle ID (defaults to LINEAR_CYCLE_ID)")
+    .option("--label <labels>", "Label name(s) or ID(s), comma-separated")
+    .option("--priority <priority>", "Priority 0-4 or none|urgent|high|medium|low")
+    .option("--estimate <points>", "Estimate points")
+    .option("--project <project>", "Project name or ID")
+    .option("--parent <issue-id>", "Parent issue ID or identifier (creates a sub-issue)")
+    .option("--due <date>", "Due date (YYYY-MM-DD)")
     .action(async (options, command: Command) => {
       const globals = getGlobalOptions(command);
       try {
         const client = getLinearClient();
-        const teamId = await resolveTeamId(client, options.team);
-        const title = options.title as string | undefined;
-        if (!title) {
-          throw new Error("--title is required");
-        }
-
-        const stateId = await resolveStateId(client, teamId, options.state as string | undefined);
-        const assigneeId = await resolveAssigneeId(client, options.assignee as string | undefined);
-        const cycleId = resolveCycleId(options.cycle);
-
-        const input: Record<string, unknown> = {
-          teamId,
-          title
-        };
-        if (options.description) {
-          input.description = options.description;
-        }
-        if (stateId) {
-          input.stateId = stateId;
-        }
-        if (assigneeId) {
-          input.assigneeId = assigneeId;
-        }
-        if (cycleId) {
-          input.cycleId = cycleId;
-        }
-
-        const result = await client.request<{ issueCreate?: Record<string, unknown> }>(
-          ISSUE_CREATE_MUTATION,
-          { input }
-        );
-        outputJson({ ok: true, result });
+        const input = await buildIssueCreateInput(client, options, globals);
+        const issueCreate = await createIssue(client, input);
+        outputJson({ ok: true, result: { issueCreate } });
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
@@ -600,239 +650,812 @@ export function registerIssuesCommands(program: Command): void {
     .option("--title <title>", "Issue title")
     .option("--description <text>", "Issue description")
     .option("--state <state>", "State name or ID")
-    .option("--assignee <assignee>", "Assignee email/name/ID")
+    .option("--assignee <assignee>", "Assignee email/name/ID, or @slack-handle via the identity map")
     .option("--cycle <cycle-id>", "Cycle ID (defaults to LINEAR_CYCLE_ID)")
-    .option("--team <team-id>", "Team ID (defaults to LINEAR_TEAM_ID)")
+    .option("--label <labels>", "Replace labels with these name(s) or ID(s), comma-separated")
+    .option("--priority <priority>", "Priority 0-4 or none|urgent|high|medium|low")
+    .option("--estimate <points>", "Estimate points")
+    .option("--project <project>", "Project name or ID")
+    .option("--parent <issue-id>", "Set or change the parent issue (ID or identifier)")
+    .option("--due <date>", "Due date (YYYY-MM-DD)")
+    .option("--add-label <labels>", "Add label name(s) or ID(s), comma-separated")
+    .option("--remove-label <labels>", "Remove label name(s) or ID(s), comma-separated")
+    .option("--team <team-id>", "Team for state/label/project lookups (defaults to the issue's team)")
     .action(async (issueId: string, options, command: Command) => {
       const globals = getGlobalOptions(command);
       try {
         const client = getLinearClient();
-        const teamId = await resolveTeamId(client, options.team);
-
-        const stateId = await resolveStateId(client, teamId, options.state as string | undefined);
-        const assigneeId = await resolveAssigneeId(client, options.assignee as string | undefined);
-        const cycleId = resolveCycleId(options.cycle);
-
-        const input: Record<string, unknown> = {};
-        if (options.title) {
-          input.title = options.title;
-        }
-        if (options.description) {
-          input.description = options.description;
-        }
-        if (stateId) {
-          input.stateId = stateId;
-        }
-        if (assigneeId) {
-          input.assigneeId = assigneeId;
+        const input = await buildIssueUpdateInput(client, issueId, options, globals);
+        if (Object.keys(input).length === 0) {
+          throw new Error("No updates provided");
         }
-        if (cycleId) {
-          input.cycleId = cycleId;
+        const issueUpdate = await updateIssue(client, issueId, input);
+        outputJson({ ok: true, result: { issueUpdate } });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  for (const transition of ISSUE_TRANSITIONS) {
+    issues
+      .command(transition)
+      .description(TRANSITION_DESCRIPTIONS[transition])
+      .argument("<issue-id>", "Issue ID or identifier")
+      .option("--state <state>", "Override the target state name or ID")
+      .option("--comment <text>", "Add a comment after the transition")
+      .action(async (issueId: string, options, command: Command) => {
+        const globals = getGlobalOptions(command);
+        try {
+          const client = getLinearClient();
+          const issue = await fetchIssue(client, issueId);
+          if (!issue.team?.id) {
+            throw new Error(`Unable to determine team for issue: ${issueId}`);
+          }
+          const override = (options.state as string | undefined) ?? resolveLinearTransitions()?.[transition];
+          const target = await resolveTransitionState(client, issue.team.id, transition, override);
+
+          const changed = issue.state?.id !== target.id;
+          const issueUpdate = changed ? await updateIssue(client, issue.id, { stateId: target.id }) : null;
+          const commentCreate = options.comment
+            ? await createComment(client, { issueId: issue.id, body: options.comment })
+            : null;
+
+          outputJson({
+            ok: true,
+            transition,
+            issue_id: issue.id,
+            identifier: issue.identifier,
+            changed,
+            from_state: issue.state ?? null,
+            to_state: target,
+            result: { issueUpdate, commentCreate }
+          });
+        } catch (error) {
+          handleCommandError(error, globals.verbose);
         }
+      });
+  }
 
-        if (Object.keys(input).length === 0) {
-          throw new Error("No updates provided");
+  issues
+    .command("batch")
+    .description("Apply a JSONL file of issue operations (create|update|comment|attach)")
+    .requiredOption("--file <path>", "JSONL file with one operation per line (use - for stdin)")
+    .option("--dry-run", "Resolve inputs without sending any mutations", false)
+    .option("--stop-on-error", "Stop at the first failed operation", false)
+    .action(async (options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      try {
+        const client = getLinearClient();
+        const lines = await readBatchFile(options.file as string);
+        const dryRun = Boolean(options.dryRun);
+        const refs = new Map<string, string>();
+        const results: BatchResult[] = [];
+
+        for (const { line, raw } of lines) {
+          const entry: BatchResult = { line, ok: false };
+          try {
+            const operation = parseBatchLine(raw);
+            entry.op = operation.op;
+            entry.ref = operation.ref;
+            const { input, target } = await buildBatchInput(client, operation, refs, globals);
+            entry.input = input;
+
+            if (dryRun) {
+              if (operation.op === "create" && operation.ref) {
+                refs.set(operation.ref, `<${operation.ref}>`);
+              }
+            } else {
+              entry.result = await runBatchOperation(client, operation.op, target, input);
+              if (operation.op === "create" && operation.ref) {
+                const created = (entry.result as { issue?: LinearIssue }).issue?.id;
+                if (created) {
+                  refs.set(operation.ref, created);
+                }
+              }
+            }
+            entry.ok = true;
+          } catch (error) {
+            entry.error = (error as Error)?.message ?? String(error);
+          }
+          results.push(entry);
+          if (!entry.ok && options.stopOnError) {
+            break;
+          }
         }
 
-        const result = await client.request<{ issueUpdate?: Record<string, unknown> }>(
-          ISSUE_UPDATE_MUTATION,
-          { id: issueId, input }
-        );
-        outputJson({ ok: true, result });
+        const failed = results.filter((result) => !result.ok).length;
+        outputJson({
+          ok: failed === 0,
+          dry_run: dryRun,
+          operation_count: lines.length,
+          succeeded: results.length - failed,
+          failed,
+          results
+        });
+        if (failed > 0) {
+          process.exitCode = 1;
+        }
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
     });
 }
 
-function getLinearClient(): LinearClient {
-  const apiKey = resolveLinearApiKey();
-  if (!apiKey) {
-    throw new Error("Missing Linear API key. Set LINEAR_API_KEY or .ml-agent.config.json");
+const TRANSITION_DESCRIPTIONS: Record<IssueTransition, string> = {
+  start: "Move an issue to the team's first started state",
+  review: "Move an issue to the team's review state",
+  done: "Move an issue to the team's first completed state",
+  cancel: "Move an issue to the team's canceled state",
+  reopen: "Move an issue back to the team's first unstarted state"
+};
+
+async function slackCommentToMarkdown(client: LinearClient, text: string, tokens: TokenOptions): Promise<string> {
+  return slackToMarkdown(text, {
+    slack: extractSlackMentions(text).length > 0 ? new SlackListsClient(resolveToken(tokens)) : null,
+    linear: client,
+    emphasis: false
+  });
+}
+
+async function resolveIssueAssignee(
+  client: LinearClient,
+  input: string | undefined,
+  tokens: TokenOptions
+): Promise<string | undefined> {
+  if (!input || !isSlackUserReference(input)) {
+    return resolveAssigneeId(client, input);
+  }
+  try {
+    return await linearIdForSlackUser(new SlackListsClient(resolveToken(tokens)), client, input);
+  } catch (error) {
+    // `@handle` may also be a Linear display name when Slack can't resolve it.
+    if (input.startsWith("@")) {
+      return resolveAssigneeId(client, input.slice(1)).catch(() => Promise.reject(error));
+    }
+    throw error;
   }
-  return new LinearClient(apiKey);
 }
 
-async function resolveTeamId(client: LinearClient, option?: string): Promise<string> {
-  const configured = resolveLinearTeamId();
-  const configuredKey = resolveLinearTeamKey();
-  const candidate = option ?? configured;
+async function buildIssueCreateInput(
+  client: LinearClient,
+  options: Record<string, unknown>,
+  tokens: TokenOptions = {}
+): Promise<Record<string, unknown>> {
+  const teamId = await resolveTeamId(client, options.team as string | undefined);
+  const title = options.title as string | undefined;
+  if (!title) {
+    throw new Error("--title is required");
+  }
+
+  const stateId = await resolveStateId(client, teamId, options.state as string | undefined);
+  const assigneeId = await resolveIssueAssignee(client, options.assignee as string | undefined, tokens);
+  const cycleId = resolveCycleId(options.cycle as string | undefined);
 
-  if (candidate && looksLikeId(candidate)) {
-    return candidate;
+  const input: Record<string, unknown> = {
+    teamId,
+    title
+  };
+  if (options.description) {
+    input.description = options.description;
   }
+  if (stateId) {
+    input.stateId = stateId;
+  }
+  if (assigneeId) {
+    input.assigneeId = assigneeId;
+  }
+  if (cycleId) {
+    input.cycleId = cycleId;
+  }
+  Object.assign(input, await buildIssueFieldInput(client, teamId, options));
+  return input;
+}
 
-  const key = candidate ?? configuredKey;
-  if (!key) {
-    throw new Error(
-      "Provide --team (id or key) or set LINEAR_TEAM_ID / LINEAR_TEAM_KEY / .ml-agent.config.json"
-    );
+async function buildIssueUpdateInput(
+  client: LinearClient,
+  issueId: string,
+  options: Record<string, unknown>,
+  tokens: TokenOptions = {}
+): Promise<Record<string, unknown>> {
+  const teamId = await resolveUpdateTeamId(client, issueId, options.team as string | undefined);
+
+  const stateId = await resolveStateId(client, teamId, options.state as string | undefined);
+  const assigneeId = await resolveIssueAssignee(client, options.assignee as string | undefined, tokens);
+  const cycleId = resolveCycleId(options.cycle as string | undefined);
+
+  const input: Record<string, unknown> = {};
+  if (options.title) {
+    input.title = options.title;
   }
+  if (options.description) {
+    input.description = options.description;
+  }
+  if (stateId) {
+    input.stateId = stateId;
+  }
+  if (assigneeId) {
+    input.assigneeId = assigneeId;
+  }
+  if (cycleId) {
+    input.cycleId = cycleId;
+  }
+  Object.assign(input, await buildIssueFieldInput(client, teamId, options));
 
-  const resolved = await resolveTeamIdByKey(client, key);
-  if (!resolved) {
-    throw new Error(`Unable to resolve Linear team for key: ${key}`);
+  const addedLabelIds = await resolveLabelIds(client, teamId, splitList(options.addLabel as string | undefined));
+  if (addedLabelIds.length > 0) {
+    input.addedLabelIds = addedLabelIds;
   }
-  return resolved;
+  const removedLabelIds = await resolveLabelIds(client, teamId, splitList(options.removeLabel as string | undefined));
+  if (removedLabelIds.length > 0) {
+    input.removedLabelIds = removedLabelIds;
+  }
+  return input;
 }
 
-function resolveCycleId(option?: string): string | undefined {
-  return option ?? resolveLinearCycleId();
+type BatchOp = "create" | "update" | "comment" | "attach";
+
+type BatchOperation = {
+  op: BatchOp;
+  ref?: string;
+  id?: string;
+  options: Record<string, unknown>;
+};
+
+type BatchResult = {
+  line: number;
+  op?: BatchOp;
+  ref?: string;
+  ok: boolean;
+  input?: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+};
+
+async function readBatchFile(filePath: string): Promise<Array<{ line: number; raw: string }>> {
+  const contents = filePath === "-" ? await readStdin() : await fs.readFile(filePath, "utf-8");
+  return contents
+    .split(/\r?\n/)
+    .map((raw, index) => ({ line: index + 1, raw: raw.trim() }))
+    .filter((entry) => entry.raw.length > 0);
 }
 
-function parseLimit(value: string | undefined, fallback = 50): number {
-  const limit = Number(value ?? fallback);
-  if (!Number.isFinite(limit) || limit <= 0) {
-    throw new Error("--limit must be a positive number");
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
   }
-  return limit;
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function parseBatchLine(raw: string): BatchOperation {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    throw new Error("Line is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Line must be a JSON object");
+  }
+
+  const op = String(parsed.op ?? "").toLowerCase();
+  if (op !== "create" && op !== "update" && op !== "comment" && op !== "attach") {
+    throw new Error("op must be create, update, comment or attach");
+  }
+
+  const id = parsed.id ?? parsed.issue_id ?? parsed.issue;
+  const options: Record<string, unknown> = {
+    team: parsed.team,
+    title: parsed.title,
+    description: parsed.description,
+    state: parsed.state,
+    assignee: parsed.assignee,
+    cycle: parsed.cycle,
+    label: joinList(parsed.labels ?? parsed.label),
+    addLabel: joinList(parsed.add_labels ?? parsed.add_label),
+    removeLabel: joinList(parsed.remove_labels ?? parsed.remove_label),
+    priority: parsed.priority,
+    estimate: parsed.estimate,
+    project: parsed.project,
+    parent: parsed.parent,
+    due: parsed.due ?? parsed.due_date,
+    body: parsed.body ?? parsed.text,
+    url: parsed.url,
+    metadata: parsed.metadata,
+    raw: parsed.raw
+  };
+  for (const key of Object.keys(options)) {
+    if (options[key] === undefined || options[key] === null) {
+      delete options[key];
+    }
+  }
+
+  return {
+    op,
+    ref: typeof parsed.ref === "string" ? parsed.ref : undefined,
+    id: id === undefined ? undefined : String(id),
+    options
+  };
+}
+
+function joinList(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return Array.isArray(value) ? value.map(String).join(",") : String(value);
+}
+
+function resolveBatchReference(value: string, refs: Map<string, string>): string {
+  if (!value.startsWith("$")) {
+    return value;
+  }
+  const resolved = refs.get(value.slice(1));
+  if (!resolved) {
+    throw new Error(`Unknown batch reference: ${value}`);
+  }
+  return resolved;
 }
 
-function matchesFilters(
-  issue: IssueNode,
-  filters: { state?: string; assignee?: string; cycle?: string }
-): boolean {
-  if (filters.state) {
-    const normalized = filters.state.toLowerCase();
-    const stateName = issue.state?.name?.toLowerCase();
-    if (issue.state?.id !== filters.state && stateName !== normalized) {
-      return false;
+async function buildBatchInput(
+  client: LinearClient,
+  operation: BatchOperation,
+  refs: Map<string, string>,
+  tokens: TokenOptions = {}
+): Promise<{ input: Record<string, unknown>; target?: string }> {
+  const options = { ...operation.options };
+  const parentRef =
+    typeof options.parent === "string" && options.parent.startsWith("$")
+      ? resolveBatchReference(options.parent, refs)
+      : undefined;
+  if (parentRef) {
+    delete options.parent;
+  }
+
+  if (operation.op === "create") {
+    const input = await buildIssueCreateInput(client, options, tokens);
+    if (parentRef) {
+      input.parentId = parentRef;
     }
+    return { input };
   }
 
-  if (filters.assignee) {
-    const normalized = filters.assignee.toLowerCase();
-    const idMatch = issue.assignee?.id === filters.assignee;
-    const emailMatch = issue.assignee?.email?.toLowerCase() === normalized;
-    const nameMatch = issue.assignee?.name?.toLowerCase() === normalized;
-    if (!idMatch && !emailMatch && !nameMatch) {
-      return false;
+  if (!operation.id) {
+    throw new Error(`${operation.op} requires an id`);
+  }
+  const target = resolveBatchReference(operation.id, refs);
+
+  if (operation.op === "update") {
+    const input = await buildIssueUpdateInput(client, target, options, tokens);
+    if (parentRef) {
+      input.parentId = parentRef;
+    }
+    if (Object.keys(input).length === 0) {
+      throw new Error("No updates provided");
     }
+    return { input, target };
   }
 
-  if (filters.cycle) {
-    const normalized = filters.cycle.toLowerCase();
-    const cycleName = issue.cycle?.name?.toLowerCase();
-    if (issue.cycle?.id !== filters.cycle && cycleName !== normalized) {
-      return false;
+  if (operation.op === "comment") {
+    if (typeof options.body !== "string" || !options.body) {
+      throw new Error("comment requires a body");
     }
+    const body = options.raw === true ? options.body : await slackCommentToMarkdown(client, options.body, tokens);
+    return { input: { issueId: target, body }, target };
   }
 
-  return true;
+  if (typeof options.url !== "string" || !options.url) {
+    throw new Error("attach requires a url");
+  }
+  const metadata =
+    options.metadata && typeof options.metadata === "object"
+      ? (options.metadata as Record<string, unknown>)
+      : {};
+  return {
+    input: buildAttachmentInput(target, options.url, options.title as string | undefined, metadata),
+    target
+  };
 }
 
-async function resolveStateId(
+async function runBatchOperation(
+  client: LinearClient,
+  op: BatchOp,
+  target: string | undefined,
+  input: Record<string, unknown>
+): Promise<unknown> {
+  switch (op) {
+    case "create":
+      return createIssue(client, input);
+    case "update":
+      return updateIssue(client, target!, input);
+    case "comment":
+      return createComment(client, input);
+    case "attach":
+      return createAttachment(client, input);
+  }
+}
+
+function buildAttachmentInput(
+  issueId: string,
+  url: string,
+  title: string | undefined,
+  metadata: Record<string, unknown>
+): Record<string, unknown> {
+  return {
+    issueId,
+    url,
+    title: title ?? url,
+    metadata: {
+      source: "ml-agent",
+      ...metadata
+    }
+  };
+}
+
+// States, labels and projects belong to the issue's own team, not the configured default.
+async function resolveUpdateTeamId(client: LinearClient, issueId: string, team?: string): Promise<string> {
+  // Dry-run batches stand in `<ref>` for issues they haven't created.
+  if (team || /^<.+>$/.test(issueId)) {
+    return resolveTeamId(client, team);
+  }
+  const issue = await fetchIssue(client, issueId);
+  return issue.team?.id ?? resolveTeamId(client);
+}
+
+async function buildIssueFieldInput(
   client: LinearClient,
   teamId: string,
-  input?: string
-): Promise<string | undefined> {
-  if (!input) {
-    return undefined;
+  options: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const input: Record<string, unknown> = {};
+
+  const labelIds = await resolveLabelIds(client, teamId, splitList(options.label as string | undefined));
+  if (labelIds.length > 0) {
+    input.labelIds = labelIds;
   }
-  if (looksLikeId(input)) {
-    return input;
+  if (options.priority !== undefined) {
+    input.priority = parsePriority(String(options.priority));
+  }
+  if (options.estimate !== undefined) {
+    input.estimate = parseEstimate(String(options.estimate));
+  }
+  const projectId = await resolveProjectId(client, teamId, options.project as string | undefined);
+  if (projectId) {
+    input.projectId = projectId;
+  }
+  const parentId = await resolveIssueId(client, options.parent as string | undefined);
+  if (parentId) {
+    input.parentId = parentId;
+  }
+  if (options.due !== undefined) {
+    input.dueDate = parseDueDate(String(options.due));
   }
 
-  const result = await client.request<TeamStatesResponse>(TEAM_STATES_QUERY, { teamId });
-  const states = result.team?.states?.nodes ?? [];
-  const normalized = input.toLowerCase();
-  const match = states.find((state) => state.name?.toLowerCase() === normalized);
-  if (!match?.id) {
-    throw new Error(`Unknown state: ${input}`);
+  return input;
+}
+
+function parseEstimate(value: string): number {
+  const estimate = Number(value);
+  if (!Number.isInteger(estimate) || estimate < 0) {
+    throw new Error("--estimate must be a non-negative integer");
   }
-  return match.id;
+  return estimate;
 }
 
-async function resolveAssigneeId(client: LinearClient, input?: string): Promise<string | undefined> {
-  if (!input) {
-    return undefined;
+function parseDueDate(value: string): string {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return trimmed;
   }
-  if (looksLikeId(input)) {
-    return input;
+  const parsed = Date.parse(trimmed);
+  if (Number.isNaN(parsed)) {
+    throw new Error("--due must be a date (YYYY-MM-DD)");
+  }
+  // Use the local calendar day; toISOString() would shift it for inputs like "Oct 20 2026" outside UTC.
+  const date = new Date(parsed);
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+type RelationKind = "blocks" | "blocked_by" | "related" | "duplicate_of";
+
+function parseRelationOption(options: Record<string, unknown>): {
+  kind: RelationKind;
+  type: string;
+  other: string;
+} {
+  const candidates: Array<{ kind: RelationKind; type: string; other: unknown }> = [
+    { kind: "blocks", type: "blocks", other: options.blocks },
+    { kind: "blocked_by", type: "blocks", other: options.blockedBy },
+    { kind: "related", type: "related", other: options.related },
+    { kind: "duplicate_of", type: "duplicate", other: options.duplicateOf }
+  ];
+  const provided = candidates.filter((candidate) => typeof candidate.other === "string" && candidate.other);
+  if (provided.length !== 1) {
+    throw new Error("Provide exactly one of --blocks, --blocked-by, --related or --duplicate-of");
+  }
+  const [selected] = provided;
+  return { kind: selected.kind, type: selected.type, other: String(selected.other) };
+}
+
+function findRelationId(
+  issue: LinearIssue,
+  relation: { kind: RelationKind; type: string; other: string }
+): string | undefined {
+  const outgoing = issue.relations?.nodes ?? [];
+  const incoming = issue.inverseRelations?.nodes ?? [];
+  const matchesOther = (ref?: LinearIssueRef) =>
+    Boolean(
+      ref &&
+        (ref.id === relation.other || ref.identifier?.toLowerCase() === relation.other.toLowerCase())
+    );
+  const find = (nodes: LinearIssueRelation[], pick: (node: LinearIssueRelation) => LinearIssueRef | undefined) =>
+    nodes.find((node) => node.type === relation.type && matchesOther(pick(node)))?.id;
+
+  switch (relation.kind) {
+    case "blocks":
+    case "duplicate_of":
+      return find(outgoing, (node) => node.relatedIssue);
+    case "blocked_by":
+      return find(incoming, (node) => node.issue);
+    case "related":
+      return find(outgoing, (node) => node.relatedIssue) ?? find(incoming, (node) => node.issue);
   }
+}
+
+function summarizeRelations(issue: LinearIssue) {
+  const blocks: Array<Record<string, unknown>> = [];
+  const blockedBy: Array<Record<string, unknown>> = [];
+  const related: Array<Record<string, unknown>> = [];
+  const duplicateOf: Array<Record<string, unknown>> = [];
+  const duplicatedBy: Array<Record<string, unknown>> = [];
 
-  const result = await client.request<UsersResponse>(USERS_QUERY, { first: 200 });
-  const users = result.users?.nodes ?? [];
-  const normalized = input.toLowerCase();
-  const match = users.find((user) => {
-    if (user.email && user.email.toLowerCase() === normalized) {
-      return true;
+  for (const relation of issue.relations?.nodes ?? []) {
+    if (!relation.relatedIssue) {
+      continue;
     }
-    if (user.name && user.name.toLowerCase() === normalized) {
-      return true;
+    const ref = { ...compactIssueRef(relation.relatedIssue), relation_id: relation.id };
+    if (relation.type === "blocks") {
+      blocks.push(ref);
+    } else if (relation.type === "duplicate") {
+      duplicateOf.push(ref);
+    } else if (relation.type === "related") {
+      related.push(ref);
     }
-    if (user.displayName && user.displayName.toLowerCase() === normalized) {
-      return true;
+  }
+
+  for (const relation of issue.inverseRelations?.nodes ?? []) {
+    if (!relation.issue) {
+      continue;
     }
-    return false;
-  });
+    const ref = { ...compactIssueRef(relation.issue), relation_id: relation.id };
+    if (relation.type === "blocks") {
+      blockedBy.push(ref);
+    } else if (relation.type === "duplicate") {
+      duplicatedBy.push(ref);
+    } else if (relation.type === "related") {
+      related.push(ref);
+    }
+  }
+
+  return {
+    parent: issue.parent ? compactIssueRef(issue.parent) : null,
+    children: (issue.children?.nodes ?? []).map(compactIssueRef),
+    blocks,
+    blocked_by: blockedBy,
+    related,
+    duplicate_of: duplicateOf,
+    duplicated_by: duplicatedBy
+  };
+}
 
-  if (!match?.id) {
-    throw new Error(`Unable to resolve assignee: ${input}`);
+function compactIssueRef(ref: LinearIssueRef): Record<string, unknown> {
+  return {
+    id: ref.id,
+    identifier: ref.identifier,
+    title: ref.title,
+    state: ref.state?.name
+  };
+}
+
+type TimelineEntry = {
+  source: "linear_history" | "linear_comment" | "linear_attachment" | "slack";
+  at: string;
+  [key: string]: unknown;
+};
+
+function toHistoryEntry(history: LinearIssueHistory): TimelineEntry[] {
+  const changes: Record<string, unknown> = {};
+  if (history.fromState || history.toState) {
+    changes.state = { from: history.fromState?.name ?? null, to: history.toState?.name ?? null };
+  }
+  if (history.fromAssignee || history.toAssignee) {
+    changes.assignee = {
+      from: history.fromAssignee?.email ?? history.fromAssignee?.name ?? null,
+      to: history.toAssignee?.email ?? history.toAssignee?.name ?? null
+    };
+  }
+  if (history.addedLabels?.length || history.removedLabels?.length) {
+    changes.labels = {
+      added: (history.addedLabels ?? []).map((label) => label.name),
+      removed: (history.removedLabels ?? []).map((label) => label.name)
+    };
+  }
+  if (history.fromPriority !== null && history.fromPriority !== undefined && history.fromPriority !== history.toPriority) {
+    changes.priority = { from: history.fromPriority, to: history.toPriority ?? null };
   }
-  return match.id;
+  if (history.fromTitle && history.toTitle) {
+    changes.title = { from: history.fromTitle, to: history.toTitle };
+  }
+  if (Object.keys(changes).length === 0) {
+    return [];
+  }
+  return [
+    {
+      source: "linear_history",
+      at: history.createdAt ?? "",
+      id: history.id,
+      actor: history.actor?.email ?? history.actor?.name ?? null,
+      changes
+    }
+  ];
 }
 
-function looksLikeId(value: string): boolean {
-  return /^[0-9a-f-]{32,36}$/i.test(value);
+const STATE_TYPE_ORDER = ["started", "unstarted", "triage", "backlog", "completed", "canceled"];
+
+function buildViewerIssueFilter(options: {
+  cycle?: string;
+  stateTypes: string[];
+  includeDone: boolean;
+}): IssueFilter {
+  const filter: IssueFilter = {};
+  if (options.stateTypes.length > 0) {
+    filter.state = { type: { in: options.stateTypes } };
+  } else if (!options.includeDone) {
+    filter.state = { type: { nin: ["completed", "canceled"] } };
+  }
+  if (options.cycle) {
+    filter.cycle =
+      options.cycle.toLowerCase() === "current"
+        ? { isActive: { eq: true } }
+        : { id: { eq: options.cycle } };
+  }
+  return filter;
 }
 
-async function resolveTeamIdByKey(client: LinearClient, teamKey: string): Promise<string | null> {
-  const result = await client.request<TeamsResponse>(TEAMS_QUERY);
-  const teams = result.teams?.nodes ?? [];
-  const normalized = teamKey.toLowerCase();
-  const match = teams.find(
-    (team) =>
-      (team.key && team.key.toLowerCase() === normalized) ||
-      (team.name && team.name.toLowerCase() === normalized)
-  );
-  return match?.id ?? null;
+// Urgent (1) through low (4), then no priority (0), matching compareWorkQueue.
+const WORK_QUEUE_PRIORITIES = [1, 2, 3, 4, 0];
+
+function compareWorkQueue(a: LinearIssue, b: LinearIssue): number {
+  // Linear priority 0 means "no priority"; rank it after low (4).
+  const rank = (issue: LinearIssue) => (issue.priority ? issue.priority : 5);
+  const byPriority = rank(a) - rank(b);
+  if (byPriority !== 0) {
+    return byPriority;
+  }
+  return Date.parse(b.updatedAt ?? "") - Date.parse(a.updatedAt ?? "") || 0;
 }
 
-async function fetchIssue(client: LinearClient, issueId: string): Promise<IssueNode> {
-  const result = await client.request<{ issue?: IssueNode }>(ISSUE_QUERY, { id: issueId });
-  if (!result.issue) {
-    throw new Error("Issue not found");
+function resolveCycleId(option?: string): string | undefined {
+  return option ?? resolveLinearCycleId();
+}
+
+function parseLimit(value: string | undefined, fallback = 50): number {
+  const limit = Number(value ?? fallback);
+  if (!Number.isFinite(limit) || limit <= 0) {
+    throw new Error("--limit must be a positive number");
   }
-  return result.issue;
+  return limit;
 }
 
-async function fetchIssueComments(
-  client: LinearClient,
-  issueId: string,
-  limit: number
-): Promise<{ comments: CommentNode[]; hasNextPage: boolean }> {
-  const comments: CommentNode[] = [];
-  let cursor: string | undefined = undefined;
-  let hasNextPage = false;
-
-  while (comments.length < limit) {
-    const batchSize = Math.min(50, limit - comments.length);
-    const result: IssueCommentsResponse = await client.request<IssueCommentsResponse>(ISSUE_COMMENTS_QUERY, {
-      id: issueId,
-      first: batchSize,
-      after: cursor
-    });
+function buildIssueFilter(options: {
+  state?: string;
+  assignee?: string;
+  unassigned?: boolean;
+  creator?: string;
+  labels?: string[];
+  priority?: string;
+  project?: string;
+  cycle?: string;
+  createdAfter?: string;
+  updatedAfter?: string;
+}): IssueFilter {
+  const filter: IssueFilter = {};
+  const clauses: IssueFilter[] = [];
+
+  if (options.state) {
+    filter.state = looksLikeId(options.state)
+      ? { id: { eq: options.state } }
+      : { name: { eqIgnoreCase: options.state } };
+  }
 
-    const page = result.issue?.comments?.nodes ?? [];
-    comments.push(...page);
+  if (options.assignee && options.unassigned) {
+    throw new Error("Provide only one of --assignee or --unassigned");
+  }
+  if (options.assignee) {
+    filter.assignee = buildUserFilter(options.assignee);
+  }
+  if (options.unassigned) {
+    filter.assignee = { null: true };
+  }
+  if (options.creator) {
+    filter.creator = buildUserFilter(options.creator);
+  }
 
-    const pageInfo: IssueCommentsPageInfo | undefined = result.issue?.comments?.pageInfo;
-    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
-      hasNextPage = false;
-      break;
-    }
-    cursor = pageInfo.endCursor;
-    hasNextPage = true;
+  for (const label of options.labels ?? []) {
+    clauses.push({ labels: { some: { name: { eqIgnoreCase: label } } } });
   }
 
+  if (options.priority) {
+    filter.priority = { eq: parsePriority(options.priority) };
+  }
+
+  if (options.project) {
+    filter.project = looksLikeId(options.project)
+      ? { id: { eq: options.project } }
+      : { name: { eqIgnoreCase: options.project } };
+  }
+
+  if (options.cycle) {
+    filter.cycle = looksLikeId(options.cycle)
+      ? { id: { eq: options.cycle } }
+      : { name: { eqIgnoreCase: options.cycle } };
+  }
+
+  if (options.createdAfter) {
+    filter.createdAt = { gt: parseDateFilter(options.createdAfter, "--created-after") };
+  }
+  if (options.updatedAfter) {
+    filter.updatedAt = { gt: parseDateFilter(options.updatedAfter, "--updated-after") };
+  }
+
+  if (clauses.length > 0) {
+    filter.and = clauses;
+  }
+  return filter;
+}
+
+function buildUserFilter(input: string): IssueFilter {
+  if (looksLikeId(input)) {
+    return { id: { eq: input } };
+  }
+  if (input.includes("@")) {
+    return { email: { eqIgnoreCase: input } };
+  }
   return {
-    comments: comments.slice(0, limit),
-    hasNextPage
+    or: [{ name: { eqIgnoreCase: input } }, { displayName: { eqIgnoreCase: input } }]
   };
 }
 
-function findLatestCommentTimestamp(comments: CommentNode[]): string | null {
+function parseDateFilter(value: string, label: string): string {
+  const relative = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const unitMs: Record<string, number> = {
+      m: 60_000,
+      h: 3_600_000,
+      d: 86_400_000,
+      w: 604_800_000
+    };
+    return new Date(Date.now() - amount * unitMs[relative[2].toLowerCase()]).toISOString();
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${label} must be an ISO date or a relative time like 7d or 12h`);
+  }
+  return new Date(parsed).toISOString();
+}
+
+function splitList(value?: string): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function findLatestCommentTimestamp(comments: LinearComment[]): string | null {
   let latestTime = 0;
   let latestValue: string | null = null;
   for (const comment of comments) {
@@ -862,7 +1485,3 @@ function parseMetadata(value?: string): Record<string, unknown> {
     throw new Error("--metadata must be valid JSON");
   }
 }
-
-function linearThreadScope(teamId: string): string {
-  return teamId ? `linear:${teamId}` : "linear";
-}
@@ -1,147 +1,40 @@
 import { Command } from "commander";
 
+import { buildMessageBlocks } from "../lib/blocks";
+import { resolveDefaultChannel, resolveLinearStateMap, resolveLinearStateSync, resolveToken } from "../lib/config";
+import { slackIdForLinearUser } from "../lib/identity";
 import {
-  resolveDefaultChannel,
-  resolveLinearApiKey,
-  resolveLinearStateMap,
-  resolveLinearStateSync,
-  resolveLinearTeamId,
-  resolveLinearTeamKey,
-  resolveToken
-} from "../lib/config";
+  fetchThreadRepliesPage,
+  loadIssueThreads,
+  selectThreadEntry,
+  ThreadReply
+} from "../lib/issue-threads";
 import { LinearClient } from "../lib/linear-client";
-import { parseMessageUrl, resolveChannelId } from "../lib/resolvers";
+import {
+  createAttachment,
+  createComment,
+  fetchIssue,
+  fetchTeamCycles,
+  fetchTeams,
+  fetchTeamStates,
+  fetchViewer,
+  findCurrentCycle,
+  getLinearClient,
+  LinearIssue,
+  linearThreadScope,
+  resolveStateId,
+  resolveTeamId,
+  updateIssue
+} from "../lib/linear-service";
+import { markdownToSlack, slackToMarkdown } from "../lib/markup";
+import { openDirectMessage, parseMessageUrl, resolveChannelId } from "../lib/resolvers";
 import { SlackListsClient } from "../lib/slack-client";
-import { getThreadEntries, setThreadEntry, ThreadEntry } from "../lib/thread-map";
+import { latestSlackTs, parseScheduleTime, parseSlackTimestamp } from "../lib/slack-time";
+import { listThreadItems, recordScheduledMessage, setThreadEntry } from "../lib/thread-map";
 import { getGlobalOptions } from "../utils/command";
 import { handleCommandError } from "../utils/errors";
 import { outputJson } from "../utils/output";
 
-const VIEWER_QUERY = `
-  query Viewer {
-    viewer {
-      id
-      name
-      email
-    }
-  }
-`;
-
-const TEAMS_QUERY = `
-  query Teams {
-    teams {
-      nodes {
-        id
-        key
-        name
-      }
-    }
-  }
-`;
-
-const TEAM_STATES_QUERY = `
-  query TeamStates($teamId: String!) {
-    team(id: $teamId) {
-      id
-      name
-      states {
-        nodes {
-          id
-          name
-          type
-          position
-        }
-      }
-    }
-  }
-`;
-
-const TEAM_CYCLES_QUERY = `
-  query TeamCycles($teamId: String!, $first: Int!) {
-    team(id: $teamId) {
-      id
-      name
-      cycles(first: $first) {
-        nodes {
-          id
-          name
-          number
-          startsAt
-          endsAt
-        }
-      }
-    }
-  }
-`;
-
-const ISSUE_QUERY = `
-  query Issue($id: String!) {
-    issue(id: $id) {
-      id
-      identifier
-      title
-      description
-      url
-      team {
-        id
-        name
-      }
-      state {
-        id
-        name
-        type
-      }
-      assignee {
-        id
-        name
-        email
-      }
-      cycle {
-        id
-        name
-      }
-      attachments {
-        nodes {
-          id
-          url
-          title
-          subtitle
-        }
-      }
-      updatedAt
-      createdAt
-    }
-  }
-`;
-
-const ATTACHMENT_CREATE_MUTATION = `
-  mutation AttachmentCreate($input: AttachmentCreateInput!) {
-    attachmentCreate(input: $input) {
-      success
-      attachment {
-        id
-        url
-      }
-    }
-  }
-`;
-
-const ISSUE_UPDATE_MUTATION = `
-  mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
-    issueUpdate(id: $id, input: $input) {
-      success
-      issue {
-        id
-        state {
-          id
-          name
-          type
-        }
-      }
-    }
-  }
-`;
-
 export function registerLinearCommands(program: Command): void {
   const linear = program.command("linear").description("Linear helpers (auth, teams, states, Slack threads)");
 
@@ -154,8 +47,8 @@ export function registerLinearCommands(program: Command): void {
       const globals = getGlobalOptions(command);
       try {
         const client = getLinearClient();
-        const result = await client.request<{ viewer: Record<string, unknown> }>(VIEWER_QUERY);
-        outputJson({ ok: true, viewer: result.viewer });
+        const viewer = await fetchViewer(client);
+        outputJson({ ok: true, viewer });
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
@@ -168,8 +61,8 @@ export function registerLinearCommands(program: Command): void {
       const globals = getGlobalOptions(command);
       try {
         const client = getLinearClient();
-        const result = await client.request<{ teams: { nodes: Array<Record<string, unknown>> } }>(TEAMS_QUERY);
-        outputJson({ ok: true, teams: result.teams.nodes });
+        const teams = await fetchTeams(client);
+        outputJson({ ok: true, teams });
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
@@ -184,8 +77,8 @@ export function registerLinearCommands(program: Command): void {
       try {
         const client = getLinearClient();
         const teamId = await resolveTeamId(client, options.team);
-        const result = await client.request<TeamStatesResponse>(TEAM_STATES_QUERY, { teamId });
-        outputJson({ ok: true, team: result.team, states: result.team?.states?.nodes ?? [] });
+        const { team, states } = await fetchTeamStates(client, teamId);
+        outputJson({ ok: true, team, states });
       } catch (error) {
         handleCommandError(error, globals.verbose);
       }
@@ -203,12 +96,7 @@ export function registerLinearCommands(program: Command): void {
         const client = getLinearClient();
         const teamId = await resolveTeamId(client, options.team);
         const limit = parseLimit(options.limit);
-        const result = await client.request<TeamCyclesResponse>(TEAM_CYCLES_QUERY, {
-          teamId,
-          first: limit
-        });
-
-        const cycles = (result.team?.cycles?.nodes ?? []).filter(Boolean);
+        const cycles = await fetchTeamCycles(client, teamId, limit);
         const current = findCurrentCycle(cycles);
 
         if (options.current) {
@@ -243,9 +131,7 @@ export function registerLinearCommands(program: Command): void {
         const linear = getLinearClient();
         const issue = await fetchIssue(linear, issueId);
         const teamId = issue.team?.id;
-        const storedEntries = await getThreadEntries(linearThreadScope(teamId), issueId);
-        const attachmentEntries = extractThreadsFromIssue(issue);
-        const combined = mergeThreadEntries(storedEntries, attachmentEntries);
+        const combined = await loadIssueThreads(linearThreadScope(teamId), issue, [issueId]);
         const latest = selectThreadEntry(combined);
 
         outputJson({
@@ -344,17 +230,38 @@ export function registerLinearCommands(program: Command): void {
     .option("--thread-label <label>", "Label to store for the thread")
     .option("--thread-state <state>", "State to store for the thread")
     .option("--sync-state", "Sync Linear state when thread state is provided", false)
+    .option("--raw", "Post the text as-is without Markdown to Slack conversion", false)
+    .option("--blocks <json>", "Block Kit blocks as JSON or @file (text becomes the fallback)")
+    .option("--template <name>", "Render Block Kit: status-update|question|review-request")
+    .option("--at <time>", "Schedule the comment instead of posting now (ISO time or +2h)")
+    .option("--notify-assignee", "Also DM the issue's assignee (matched via the identity map)", false)
+    .option("--mention-assignee", "@-mention the assignee's Slack account in the comment", false)
     .action(async (issueId: string, text: string, options, command: Command) => {
       const globals = getGlobalOptions(command);
       const slackClient = new SlackListsClient(resolveToken(globals));
 
       try {
+        const postAt = options.at ? parseScheduleTime(options.at) : undefined;
         const linear = getLinearClient();
         const issue = await fetchIssue(linear, issueId);
         const teamId = issue.team?.id;
 
         const threadLabel = options.threadLabel as string | undefined;
         const threadState = options.threadState as string | undefined;
+        const converted = options.raw ? text : await markdownToSlack(text, { slack: slackClient, linear });
+        const assigneeSlackId =
+          options.mentionAssignee && issue.assignee
+            ? await slackIdForLinearUser(slackClient, linear, issue.assignee)
+            : null;
+        if (options.mentionAssignee && !assigneeSlackId) {
+          throw new Error(
+            issue.assignee
+              ? `No Slack account mapped for assignee ${issue.assignee.email ?? issue.assignee.name}. Map one with \`ml-agent identity set\`.`
+              : "Issue has no assignee to mention"
+          );
+        }
+        const body = assigneeSlackId ? `<@${assigneeSlackId}> ${converted}` : converted;
+        const blocks = await buildMessageBlocks(options, body, issue);
 
         let channel = options.channel ? await resolveChannelId(slackClient, options.channel) : undefined;
         let threadTs = options.threadTs as string | undefined;
@@ -368,9 +275,7 @@ export function registerLinearCommands(program: Command): void {
           }
         }
 
-        const storedEntries = await getThreadEntries(linearThreadScope(teamId), issueId);
-        const attachmentEntries = extractThreadsFromIssue(issue);
-        const combined = mergeThreadEntries(storedEntries, attachmentEntries);
+        const combined = await loadIssueThreads(linearThreadScope(teamId), issue, [issueId]);
         const preferred = selectThreadEntry(combined, threadLabel);
 
         if (!channel || !threadTs) {
@@ -427,7 +332,20 @@ export function registerLinearCommands(program: Command): void {
           );
         }
 
-        const result = await slackClient.postMessage({ channel, text, thread_ts: threadTs });
+        const message = { channel, text: body, thread_ts: threadTs, ...(blocks ? { blocks } : {}) };
+        const result = postAt
+          ? await slackClient.scheduleMessage({ ...message, post_at: postAt })
+          : await slackClient.postMessage(message);
+
+        const scheduledId = (result as { scheduled_message_id?: string }).scheduled_message_id;
+        if (postAt && scheduledId) {
+          await recordScheduledMessage(
+            linearThreadScope(teamId),
+            issueId,
+            { channel, ts: threadTs, permalink: messageUrl },
+            { id: scheduledId, channel, post_at: postAt, text: body }
+          );
+        }
 
         if (messageUrl || (channel && threadTs)) {
           await setThreadEntry(linearThreadScope(teamId), issueId, {
@@ -446,9 +364,235 @@ export function registerLinearCommands(program: Command): void {
           syncRequested: Boolean(options.syncState)
         });
 
+        const notify = options.notifyAssignee
+          ? await notifyAssignee(slackClient, linear, issue, {
+              text: body,
+              permalink: postAt
+                ? messageUrl
+                : await resolveMessagePermalink(
+                    slackClient,
+                    channel,
+                    (result as { ts?: string }).ts ?? threadTs,
+                    messageUrl
+                  ),
+              postAt
+            })
+          : undefined;
+
         outputJson({
           ...result,
-          state_sync: stateSync ?? undefined
+          state_sync: stateSync ?? undefined,
+          notify
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  linear
+    .command("sync-state")
+    .description("Update stored thread states from each issue's current Linear state (reverse state_map)")
+    .argument("[issue-id]", "Linear issue ID or identifier")
+    .option("--all", "Sync every Linear issue in the thread map", false)
+    .option("--announce", "Post a state-change note into the Slack thread", false)
+    .option("--dry-run", "Report changes without updating threads.json", false)
+    .action(async (issueId: string | undefined, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      try {
+        if (!issueId && !options.all) {
+          throw new Error("Provide an issue ID or --all");
+        }
+        const map = resolveLinearStateMap();
+        if (!map || Object.keys(map).length === 0) {
+          throw new Error("No linear.state_map configured. Run `ml-agent sync cycles --write-team --write` or set it manually.");
+        }
+
+        const linear = getLinearClient();
+        const slackClient = options.announce ? new SlackListsClient(resolveToken(globals)) : null;
+        const dryRun = Boolean(options.dryRun);
+
+        const targets: Array<{ key: string; scope?: string }> = issueId
+          ? [{ key: issueId }]
+          : (await listThreadItems("linear")).map((item) => ({ key: item.itemId, scope: item.scope }));
+
+        const results: Array<Record<string, unknown>> = [];
+        for (const target of targets) {
+          const result: Record<string, unknown> = { issue_id: target.key };
+          results.push(result);
+          try {
+            const issue = await fetchIssue(linear, target.key);
+            const scope = target.scope ?? linearThreadScope(issue.team?.id);
+            const threads = await loadIssueThreads(scope, issue, [target.key]);
+            const latest = selectThreadEntry(threads);
+            const threadState = issue.state?.name ? reverseMapState(map, issue.state.name) : null;
+
+            result.identifier = issue.identifier;
+            result.linear_state = issue.state?.name ?? null;
+            result.previous_thread_state = latest?.state ?? null;
+            result.thread_state = threadState;
+
+            if (!threadState) {
+              result.changed = false;
+              result.reason = `No state_map entry for Linear state: ${issue.state?.name ?? "unknown"}`;
+              continue;
+            }
+
+            // With a many-to-one state_map, any key that maps to the current Linear state is already in sync.
+            const linearState = issue.state!.name!.toLowerCase();
+            const inSync = (state?: string) => resolveMappedState(map, state ?? "")?.toLowerCase() === linearState;
+            const stale = threads.filter((thread) => thread.channel && thread.ts && !inSync(thread.state));
+            result.changed = stale.length > 0;
+            result.threads_updated = stale.length;
+            if (dryRun || stale.length === 0) {
+              continue;
+            }
+
+            for (const thread of stale) {
+              await setThreadEntry(scope, target.key, {
+                channel: thread.channel,
+                ts: thread.ts,
+                state: threadState,
+                ...(thread.permalink ? { permalink: thread.permalink } : {})
+              });
+            }
+
+            if (slackClient && latest?.channel && latest.ts && !inSync(latest.state)) {
+              const identifier = issue.identifier ?? issue.id;
+              await slackClient.postMessage({
+                channel: latest.channel,
+                thread_ts: latest.ts,
+                text: `${identifier} moved to *${issue.state?.name}* in Linear (thread state: \`${threadState}\`).`
+              });
+              result.announced = true;
+            }
+          } catch (error) {
+            result.error = (error as Error)?.message ?? String(error);
+          }
+        }
+
+        outputJson({
+          ok: results.every((result) => !result.error),
+          dry_run: dryRun,
+          issue_count: results.length,
+          changed_count: results.filter((result) => result.changed).length,
+          results
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  linear
+    .command("mirror")
+    .description("Copy Slack thread replies that are not yet mirrored into Linear comments")
+    .argument("<issue-id>", "Linear issue ID or identifier")
+    .option("--message-url <url>", "Only mirror this Slack thread")
+    .option("--thread-label <label>", "Only mirror the thread with this label")
+    .option("--limit <count>", "Maximum new replies to scan per thread (rerun to continue)", "200")
+    .option("--include-bots", "Also mirror bot messages", false)
+    .option("--raw", "Copy Slack text as-is without mrkdwn to Markdown conversion", false)
+    .option("--dry-run", "Show what would be mirrored without creating comments", false)
+    .action(async (issueId: string, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const slackClient = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const linear = getLinearClient();
+        const issue = await fetchIssue(linear, issueId);
+        const scope = linearThreadScope(issue.team?.id);
+        const limit = parseLimit(options.limit);
+        const dryRun = Boolean(options.dryRun);
+
+        let threads = await loadIssueThreads(scope, issue, [issueId]);
+        if (options.messageUrl) {
+          const parsed = parseMessageUrl(options.messageUrl);
+          if (!parsed) {
+            throw new Error("Unable to parse message URL");
+          }
+          const existing = threads.find((thread) => thread.channel === parsed.channel && thread.ts === parsed.ts);
+          threads = [existing ?? { permalink: options.messageUrl, channel: parsed.channel, ts: parsed.ts }];
+        } else if (options.threadLabel) {
+          const label = String(options.threadLabel).toLowerCase();
+          threads = threads.filter((thread) => thread.label?.toLowerCase() === label);
+        }
+        if (threads.length === 0) {
+          throw new Error("No Slack threads recorded for this issue. Use `ml-agent linear threads set` first.");
+        }
+
+        const authors = new Map<string, string>();
+        const results: MirrorThreadResult[] = [];
+        let mirroredCount = 0;
+
+        for (const thread of threads) {
+          if (!thread.channel || !thread.ts) {
+            continue;
+          }
+          const summary: MirrorThreadResult = {
+            channel: thread.channel,
+            thread_ts: thread.ts,
+            previous_mirrored_ts: thread.mirrored_ts ?? null,
+            mirrored_ts: null,
+            mirrored: [],
+            has_more: false
+          };
+          results.push(summary);
+
+          let highWater = thread.mirrored_ts;
+          try {
+            // Page forward from the last mirrored reply so long threads never push new replies past --limit.
+            // The root message is never mirrored, so the first run starts right after it.
+            const page = await fetchThreadRepliesPage(slackClient, thread.channel, thread.ts, {
+              limit,
+              oldest: thread.mirrored_ts ?? thread.ts
+            });
+            summary.has_more = Boolean(page.nextCursor);
+            const pending = page.messages.filter((reply) => {
+              if (!reply.ts || (highWater && Number(reply.ts) <= Number(highWater))) {
+                return false;
+              }
+              if (reply.subtype && reply.subtype !== "thread_broadcast" && reply.subtype !== "file_share") {
+                return false;
+              }
+              return options.includeBots || !reply.bot_id;
+            });
+
+            for (const reply of pending) {
+              const author = await resolveSlackAuthor(slackClient, reply, authors);
+              const permalink = await resolveMessagePermalink(slackClient, thread.channel, reply.ts!, thread.permalink);
+              const text = options.raw
+                ? String(reply.text ?? "")
+                : await slackToMarkdown(String(reply.text ?? ""), { slack: slackClient, linear });
+              const body = `**${author}** in Slack${permalink ? ` ([view message](${permalink}))` : ""}:\n\n${text}`;
+
+              if (!dryRun) {
+                await createComment(linear, { issueId: issue.id, body });
+                highWater = reply.ts;
+              }
+              mirroredCount += 1;
+              summary.mirrored.push(reply.ts!);
+            }
+          } catch (error) {
+            summary.error = (error as Error)?.message ?? String(error);
+          }
+
+          summary.mirrored_ts = highWater ?? null;
+          if (!dryRun && highWater && highWater !== thread.mirrored_ts) {
+            await setThreadEntry(scope, issueId, {
+              channel: thread.channel,
+              ts: thread.ts,
+              mirrored_ts: highWater,
+              ...(thread.permalink ? { permalink: thread.permalink } : {})
+            });
+          }
+        }
+
+        outputJson({
+          ok: results.every((result) => !result.error),
+          issue_id: issue.id,
+          identifier: issue.identifier,
+          dry_run: dryRun,
+          mirrored_count: mirroredCount,
+          threads: results
         });
       } catch (error) {
         handleCommandError(error, globals.verbose);
@@ -465,6 +609,11 @@ export function registerLinearCommands(program: Command): void {
     .option("--thread-label <label>", "Select a thread by label")
     .option("--limit <count>", "Maximum messages to return", "200")
     .option("--compact", "Return only user/text/ts fields", false)
+    .option("--since <time>", "Only replies after this Slack ts, ISO time or relative time (e.g. 2h)")
+    .option("--cursor <cursor>", "Resume from a previous next_cursor")
+    .option("--unread", "Only replies after the stored last-read marker", false)
+    .option("--after-last-seen", "Alias for --unread", false)
+    .option("--no-mark-read", "Do not advance the last-read marker")
     .action(async (issueId: string, options, command: Command) => {
       const globals = getGlobalOptions(command);
       const slackClient = new SlackListsClient(resolveToken(globals));
@@ -487,9 +636,7 @@ export function registerLinearCommands(program: Command): void {
           }
         }
 
-        const storedEntries = await getThreadEntries(linearThreadScope(teamId), issueId);
-        const attachmentEntries = extractThreadsFromIssue(issue);
-        const combined = mergeThreadEntries(storedEntries, attachmentEntries);
+        const combined = await loadIssueThreads(linearThreadScope(teamId), issue, [issueId]);
         const preferred = selectThreadEntry(combined, threadLabel);
 
         if (!channel || !threadTs) {
@@ -509,30 +656,20 @@ export function registerLinearCommands(program: Command): void {
           throw new Error("--limit must be a positive number");
         }
 
-        const messages: Array<Record<string, unknown>> = [];
-        let cursor: string | undefined = undefined;
-        let remaining = limit;
-
-        do {
-          const batchSize = Math.min(remaining, 200);
-          const result = await slackClient.call("conversations.replies", {
-            channel,
-            ts: threadTs,
-            limit: batchSize,
-            cursor
-          });
-
-          const page = (result as { messages?: Array<Record<string, unknown>> }).messages ?? [];
-          messages.push(...page);
-
-          cursor = (result as { response_metadata?: { next_cursor?: string } }).response_metadata?.next_cursor;
-          remaining = limit - messages.length;
-          if (remaining <= 0) {
-            break;
-          }
-        } while (cursor);
-
-        const trimmed = messages.slice(0, limit);
+        const stored = combined.find((entry) => entry.ts === threadTs);
+        const unread = Boolean(options.unread || options.afterLastSeen);
+        const oldest = latestSlackTs(
+          parseSlackTimestamp(options.since, "--since"),
+          unread ? stored?.last_read_ts : undefined
+        );
+        const page = await fetchThreadRepliesPage(slackClient, channel, threadTs, {
+          limit,
+          cursor: options.cursor as string | undefined,
+          oldest
+        });
+        const trimmed = page.messages;
+        const lastReadTs = latestSlackTs(stored?.last_read_ts, ...trimmed.map((message) => message.ts));
+        const markRead = options.markRead !== false;
         const payload = options.compact
           ? trimmed.map((message) => ({
               ts: message.ts,
@@ -542,20 +679,24 @@ export function registerLinearCommands(program: Command): void {
             }))
           : trimmed;
 
-        if ((messageUrl || (channel && threadTs)) && channel && threadTs) {
-          await setThreadEntry(linearThreadScope(teamId), issueId, {
-            permalink: messageUrl,
-            channel,
-            ts: threadTs,
-            label: threadLabel
-          });
-        }
+        await setThreadEntry(linearThreadScope(teamId), issueId, {
+          ...(messageUrl ? { permalink: messageUrl } : {}),
+          channel,
+          ts: threadTs,
+          ...(threadLabel ? { label: threadLabel } : {}),
+          ...(markRead && lastReadTs ? { last_read_ts: lastReadTs } : {})
+        });
 
         outputJson({
           ok: true,
           channel,
           thread_ts: threadTs,
+          oldest: oldest ?? null,
           message_count: trimmed.length,
+          has_more: Boolean(page.nextCursor),
+          next_cursor: page.nextCursor,
+          previous_last_read_ts: stored?.last_read_ts ?? null,
+          last_read_ts: markRead ? lastReadTs ?? null : stored?.last_read_ts ?? null,
           messages: payload
         });
       } catch (error) {
@@ -564,100 +705,6 @@ export function registerLinearCommands(program: Command): void {
     });
 }
 
-type TeamStatesResponse = {
-  team?: {
-    id?: string;
-    name?: string;
-    states?: { nodes?: Array<{ id?: string; name?: string; type?: string }> };
-  };
-};
-
-type TeamCyclesResponse = {
-  team?: {
-    id?: string;
-    name?: string;
-    cycles?: { nodes?: CycleNode[] };
-  };
-};
-
-type LinearIssue = {
-  id: string;
-  identifier?: string;
-  title?: string;
-  state?: { id?: string; name?: string; type?: string };
-  team?: { id?: string; name?: string };
-  attachments?: { nodes?: Array<{ url?: string }> };
-};
-
-type CycleNode = {
-  id?: string;
-  name?: string;
-  number?: number;
-  startsAt?: string;
-  endsAt?: string;
-};
-
-function getLinearClient(): LinearClient {
-  const apiKey = resolveLinearApiKey();
-  if (!apiKey) {
-    throw new Error("Missing Linear API key. Set LINEAR_API_KEY or .ml-agent.config.json");
-  }
-  return new LinearClient(apiKey);
-}
-
-async function resolveTeamId(client: LinearClient, option?: string): Promise<string> {
-  const configured = resolveLinearTeamId();
-  const configuredKey = resolveLinearTeamKey();
-  const candidate = option ?? configured;
-
-  if (candidate && looksLikeId(candidate)) {
-    return candidate;
-  }
-
-  const key = candidate ?? configuredKey;
-  if (!key) {
-    throw new Error(
-      "Provide --team (id or key) or set LINEAR_TEAM_ID / LINEAR_TEAM_KEY / .ml-agent.config.json"
-    );
-  }
-
-  const resolved = await resolveTeamIdByKey(client, key);
-  if (!resolved) {
-    throw new Error(`Unable to resolve Linear team for key: ${key}`);
-  }
-  return resolved;
-}
-
-async function fetchIssue(client: LinearClient, issueId: string): Promise<LinearIssue> {
-  const result = await client.request<{ issue?: LinearIssue }>(ISSUE_QUERY, { id: issueId });
-  if (!result.issue) {
-    throw new Error("Linear issue not found");
-  }
-  return result.issue;
-}
-
-function linearThreadScope(teamId?: string): string {
-  return teamId ? `linear:${teamId}` : "linear";
-}
-
-function extractThreadsFromIssue(issue: LinearIssue): ThreadEntry[] {
-  const attachments = issue.attachments?.nodes ?? [];
-  const entries: ThreadEntry[] = [];
-  for (const attachment of attachments) {
-    if (!attachment?.url) {
-      continue;
-    }
-    if (!attachment.url.includes("slack.com/archives/")) {
-      continue;
-    }
-    const parsed = parseMessageUrl(attachment.url);
-    if (parsed) {
-      entries.push({ permalink: attachment.url, channel: parsed.channel, ts: parsed.ts });
-    }
-  }
-  return entries;
-}
-
 function buildLinearThreadRootText(issue: LinearIssue): string {
   const identifier = issue.identifier ? `${issue.identifier}` : "issue";
   const title = issue.title ? `: ${issue.title}` : "";
@@ -672,22 +719,92 @@ function parseLimit(value: string | undefined): number {
   return limit;
 }
 
-function looksLikeId(value: string): boolean {
-  return /^[0-9a-f-]{32,36}$/i.test(value);
+type MirrorThreadResult = {
+  channel: string;
+  thread_ts: string;
+  previous_mirrored_ts: string | null;
+  mirrored_ts: string | null;
+  mirrored: string[];
+  has_more: boolean;
+  error?: string;
+};
+
+async function resolveSlackAuthor(
+  client: SlackListsClient,
+  reply: ThreadReply,
+  cache: Map<string, string>
+): Promise<string> {
+  const userId = reply.user;
+  if (!userId) {
+    return String((reply as { username?: string }).username ?? reply.bot_id ?? "Slack user");
+  }
+  const cached = cache.get(userId);
+  if (cached) {
+    return cached;
+  }
+  let name = userId;
+  try {
+    const result = await client.call("users.info", { user: userId });
+    const user = (result as { user?: { real_name?: string; name?: string; profile?: { display_name?: string } } }).user;
+    name = user?.real_name || user?.profile?.display_name || user?.name || userId;
+  } catch {
+    // Fall back to the Slack user ID
+  }
+  cache.set(userId, name);
+  return name;
 }
 
-async function resolveTeamIdByKey(client: LinearClient, teamKey: string): Promise<string | null> {
-  const result = await client.request<{ teams?: { nodes?: Array<{ id?: string; key?: string; name?: string }> } }>(
-    TEAMS_QUERY
-  );
-  const teams = result.teams?.nodes ?? [];
-  const normalized = teamKey.toLowerCase();
-  const match = teams.find(
-    (team) =>
-      (team.key && team.key.toLowerCase() === normalized) ||
-      (team.name && team.name.toLowerCase() === normalized)
-  );
-  return match?.id ?? null;
+async function resolveMessagePermalink(
+  client: SlackListsClient,
+  channel: string,
+  ts: string,
+  fallback?: string
+): Promise<string | undefined> {
+  try {
+    const result = await client.call("chat.getPermalink", { channel, message_ts: ts });
+    return (result as { permalink?: string }).permalink ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function notifyAssignee(
+  client: SlackListsClient,
+  linear: LinearClient,
+  issue: LinearIssue,
+  message: { text: string; permalink?: string; postAt?: number }
+): Promise<Record<string, unknown>> {
+  if (!issue.assignee) {
+    return { ok: false, reason: "Issue has no assignee" };
+  }
+  const email = issue.assignee.email;
+  try {
+    const slackId = await slackIdForLinearUser(client, linear, issue.assignee);
+    if (!slackId) {
+      return { ok: false, email: email ?? null, reason: "No Slack account mapped for the assignee" };
+    }
+    const dm = await openDirectMessage(client, slackId);
+    const identifier = issue.identifier ?? issue.id;
+    const link = message.permalink ? `<${message.permalink}|${identifier}>` : identifier;
+    const quoted = message.text
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n");
+    const text = `New comment on ${link}${issue.title ? ` (${issue.title})` : ""}:\n${quoted}`;
+    const params = { channel: dm.channel, text, unfurl_links: false };
+    const result = message.postAt
+      ? await client.scheduleMessage({ ...params, post_at: message.postAt })
+      : await client.postMessage(params);
+    return {
+      ok: true,
+      user: dm.user,
+      channel: dm.channel,
+      ts: (result as { ts?: string }).ts,
+      scheduled_message_id: (result as { scheduled_message_id?: string }).scheduled_message_id
+    };
+  } catch (error) {
+    return { ok: false, email, reason: (error as Error)?.message ?? String(error) };
+  }
 }
 
 async function maybeSyncIssueState({
@@ -732,12 +849,7 @@ async function maybeSyncIssueState({
       return { synced: true, from: issue.state?.name, to: issue.state?.name };
     }
 
-    await client.request(ISSUE_UPDATE_MUTATION, {
-      id: issue.id,
-      input: {
-        stateId
-      }
-    });
+    await updateIssue(client, issue.id, { stateId });
 
     return { synced: true, from: issue.state?.name, to: mapped };
   } catch (error) {
@@ -745,45 +857,21 @@ async function maybeSyncIssueState({
   }
 }
 
-function resolveMappedState(map: Record<string, string>, threadState: string): string | null {
-  const normalized = threadState.toLowerCase();
+function reverseMapState(map: Record<string, string>, linearState: string): string | null {
+  const normalized = linearState.toLowerCase();
   for (const [key, value] of Object.entries(map)) {
-    if (key.toLowerCase() === normalized) {
-      return value;
+    if (value.toLowerCase() === normalized) {
+      return key;
     }
   }
   return null;
 }
 
-async function resolveStateId(
-  client: LinearClient,
-  teamId: string,
-  input: string
-): Promise<string | undefined> {
-  if (looksLikeId(input)) {
-    return input;
-  }
-
-  const result = await client.request<TeamStatesResponse>(TEAM_STATES_QUERY, { teamId });
-  const states = result.team?.states?.nodes ?? [];
-  const normalized = input.toLowerCase();
-  const match = states.find((state) => state.name?.toLowerCase() === normalized);
-  if (!match?.id) {
-    throw new Error(`Unknown Linear state: ${input}`);
-  }
-  return match.id;
-}
-
-function findCurrentCycle(cycles: CycleNode[]): CycleNode | null {
-  const now = new Date();
-  const candidates = cycles.filter((cycle) => cycle?.startsAt && cycle?.endsAt);
-  for (const cycle of candidates) {
-    const start = new Date(cycle.startsAt!);
-    const end = new Date(cycle.endsAt!);
-    if (!Number.isNaN(start.valueOf()) && !Number.isNaN(end.valueOf())) {
-      if (start <= now && now <= end) {
-        return cycle;
-      }
+function resolveMappedState(map: Record<string, string>, threadState: string): string | null {
+  const normalized = threadState.toLowerCase();
+  for (const [key, value] of Object.entries(map)) {
+    if (key.toLowerCase() === normalized) {
+      return value;
     }
   }
   return null;
@@ -798,92 +886,19 @@ async function createThreadAttachment(
   meta?: { label?: string; state?: string }
 ): Promise<void> {
   try {
-    await client.request(ATTACHMENT_CREATE_MUTATION, {
-      input: {
-        issueId,
-        title: "Slack thread",
-        subtitle: channel,
-        url: permalink,
-        metadata: {
-          channel,
-          thread_ts: threadTs,
-          label: meta?.label,
-          state: meta?.state
-        }
+    await createAttachment(client, {
+      issueId,
+      title: "Slack thread",
+      subtitle: channel,
+      url: permalink,
+      metadata: {
+        channel,
+        thread_ts: threadTs,
+        label: meta?.label,
+        state: meta?.state
       }
     });
   } catch {
     // Best effort; attachment is optional if the org disallows it
   }
 }
-
-function mergeThreadEntries(existing: ThreadEntry[], incoming: ThreadEntry[]): ThreadEntry[] {
-  const merged = [...existing];
-  for (const entry of incoming) {
-    if (!entry) {
-      continue;
-    }
-    const exists = merged.some((candidate) => matchesThread(candidate, entry));
-    if (!exists) {
-      merged.push(entry);
-    }
-  }
-  return sortThreads(merged);
-}
-
-function selectThreadEntry(entries: ThreadEntry[], label?: string): ThreadEntry | null {
-  if (entries.length === 0) {
-    return null;
-  }
-  const sorted = sortThreads(entries);
-  if (label) {
-    const normalized = label.toLowerCase();
-    const labeled = sorted.filter((entry) => entry.label?.toLowerCase() === normalized);
-    if (labeled.length > 0) {
-      return labeled[labeled.length - 1];
-    }
-  }
-  return sorted[sorted.length - 1];
-}
-
-function sortThreads(entries: ThreadEntry[]): ThreadEntry[] {
-  return entries
-    .map((entry, index) => ({ entry, index }))
-    .sort((a, b) => {
-      const timeDiff = parseThreadTime(a.entry) - parseThreadTime(b.entry);
-      if (timeDiff !== 0) {
-        return timeDiff;
-      }
-      return a.index - b.index;
-    })
-    .map(({ entry }) => entry);
-}
-
-function matchesThread(a: ThreadEntry, b: ThreadEntry): boolean {
-  if (a.ts && b.ts && a.ts === b.ts) {
-    return true;
-  }
-  if (a.permalink && b.permalink && a.permalink === b.permalink) {
-    return true;
-  }
-  if (a.channel && b.channel && a.ts && b.ts) {
-    return a.channel === b.channel && a.ts === b.ts;
-  }
-  return false;
-}
-
-function parseThreadTime(entry: ThreadEntry): number {
-  if (entry.updated_at) {
-    const time = Date.parse(entry.updated_at);
-    if (!Number.isNaN(time)) {
-      return time;
-    }
-  }
-  if (entry.created_at) {
-    const time = Date.parse(entry.created_at);
-    if (!Number.isNaN(time)) {
-      return time;
-    }
-  }
-  return 0;
-}
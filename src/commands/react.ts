@@ -0,0 +1,71 @@
+import { Command } from "commander";
+
+import { resolveToken } from "../lib/config";
+import { fetchReactions, normalizeEmoji } from "../lib/reactions";
+import { resolveChannelId } from "../lib/resolvers";
+import { SlackListsClient } from "../lib/slack-client";
+import { getGlobalOptions } from "../utils/command";
+import { handleCommandError } from "../utils/errors";
+import { outputJson } from "../utils/output";
+
+export function registerReactCommands(program: Command): void {
+  const react = program.command("react").description("Add, remove or list message reactions");
+
+  react
+    .command("add")
+    .description("Add a reaction to a message")
+    .argument("<channel>", "Channel ID or name")
+    .argument("<ts>", "Message timestamp")
+    .argument("<emoji>", "Emoji name (e.g. white_check_mark or :eyes:)")
+    .action(async (channelInput: string, ts: string, emoji: string, _options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const channel = await resolveChannelId(client, channelInput);
+        const name = normalizeEmoji(emoji);
+        const result = await client.call("reactions.add", { channel, timestamp: ts, name });
+        outputJson({ ok: true, channel, ts, emoji: name, slack: result });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  react
+    .command("remove")
+    .description("Remove a reaction from a message")
+    .argument("<channel>", "Channel ID or name")
+    .argument("<ts>", "Message timestamp")
+    .argument("<emoji>", "Emoji name")
+    .action(async (channelInput: string, ts: string, emoji: string, _options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const channel = await resolveChannelId(client, channelInput);
+        const name = normalizeEmoji(emoji);
+        const result = await client.call("reactions.remove", { channel, timestamp: ts, name });
+        outputJson({ ok: true, channel, ts, emoji: name, slack: result });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  react
+    .command("list")
+    .description("List reactions on a message")
+    .argument("<channel>", "Channel ID or name")
+    .argument("<ts>", "Message timestamp")
+    .action(async (channelInput: string, ts: string, _options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const channel = await resolveChannelId(client, channelInput);
+        const reactions = await fetchReactions(client, channel, ts);
+        outputJson({ ok: true, channel, ts, reactions });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+}
@@ -0,0 +1,118 @@
+import { Command } from "commander";
+
+import { resolveToken } from "../lib/config";
+import { resolveChannelId } from "../lib/resolvers";
+import { SlackListsClient } from "../lib/slack-client";
+import { slackTsToIso } from "../lib/slack-time";
+import { listScheduledMessages, removeScheduledMessage, removeScheduledMessages } from "../lib/thread-map";
+import { getGlobalOptions } from "../utils/command";
+import { handleCommandError } from "../utils/errors";
+import { outputJson } from "../utils/output";
+
+type SlackScheduledMessage = {
+  id: string;
+  channel_id: string;
+  post_at: number;
+  date_created?: number;
+  text?: string;
+};
+
+export function registerScheduledCommands(program: Command): void {
+  const scheduled = program.command("scheduled").description("List or cancel scheduled Slack messages");
+
+  scheduled
+    .command("list")
+    .description("List pending scheduled messages (chat.scheduledMessages.list)")
+    .option("--channel <channel>", "Only messages scheduled in this channel")
+    .option("--limit <count>", "Maximum messages to return", "100")
+    .option("--cursor <cursor>", "Resume from a previous next_cursor")
+    .action(async (options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const limit = Number(options.limit);
+        if (!Number.isFinite(limit) || limit <= 0) {
+          throw new Error("--limit must be a positive number");
+        }
+        const channel = options.channel ? await resolveChannelId(client, options.channel) : undefined;
+        const result = (await client.call("chat.scheduledMessages.list", {
+          limit,
+          ...(channel ? { channel } : {}),
+          ...(options.cursor ? { cursor: options.cursor } : {})
+        })) as {
+          scheduled_messages?: SlackScheduledMessage[];
+          response_metadata?: { next_cursor?: string };
+        };
+
+        const pendingIds = new Set((result.scheduled_messages ?? []).map((message) => message.id));
+        const nextCursor = result.response_metadata?.next_cursor || null;
+        // Only a complete listing proves a recorded message is gone (sent or cancelled elsewhere).
+        const complete = !options.cursor && !nextCursor;
+        const now = Date.now() / 1000;
+        const pruned = await removeScheduledMessages(
+          (message) =>
+            message.post_at <= now ||
+            (complete && (!channel || message.channel === channel) && !pendingIds.has(message.id))
+        );
+
+        const recorded = new Map((await listScheduledMessages()).map((entry) => [entry.id, entry]));
+        const messages = (result.scheduled_messages ?? []).map((message) => {
+          const record = recorded.get(message.id);
+          return {
+            id: message.id,
+            channel: message.channel_id,
+            post_at: message.post_at,
+            post_at_iso: slackTsToIso(String(message.post_at)),
+            text: message.text ?? record?.text ?? "",
+            thread_ts: record?.thread_ts ?? null,
+            scope: record?.scope ?? null,
+            item_id: record?.item_id ?? null
+          };
+        });
+
+        outputJson({
+          ok: true,
+          channel: channel ?? null,
+          count: messages.length,
+          next_cursor: nextCursor,
+          scheduled_messages: messages,
+          pruned_from_thread_map: pruned
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  scheduled
+    .command("cancel")
+    .description("Cancel a scheduled message (chat.deleteScheduledMessage)")
+    .argument("<id>", "Scheduled message ID")
+    .option("--channel <channel>", "Channel ID or name (defaults to the one recorded in the thread map)")
+    .action(async (id: string, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const record = (await listScheduledMessages()).find((entry) => entry.id === id);
+        const channel = options.channel ? await resolveChannelId(client, options.channel) : record?.channel;
+        if (!channel) {
+          throw new Error("Scheduled message not found in the thread map. Provide --channel.");
+        }
+
+        await client.call("chat.deleteScheduledMessage", { channel, scheduled_message_id: id });
+        const removed = await removeScheduledMessage(id);
+
+        outputJson({
+          ok: true,
+          id,
+          channel,
+          scope: record?.scope ?? null,
+          item_id: record?.item_id ?? null,
+          removed_from_thread_map: removed
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+}
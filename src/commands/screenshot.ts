@@ -2,11 +2,11 @@ import { Command } from "commander";
 import { createReadStream, promises as fs } from "fs";
 import path from "path";
 
-import { resolveDefaultChannel, resolveLinearApiKey, resolveToken } from "../lib/config";
+import { resolveDefaultChannel, resolveToken } from "../lib/config";
 import { resolveEvidenceColumn } from "../lib/evidence";
 import { buildTypedField } from "../lib/fields";
 import { extractFileId, extractFilePermalink } from "../lib/file-utils";
-import { LinearClient } from "../lib/linear-client";
+import { createAttachment, getLinearClient } from "../lib/linear-service";
 import { parseMessageUrl, resolveChannelId } from "../lib/resolvers";
 import { resolveSchemaIndex } from "../lib/schema-resolver";
 import { createTempScreenshotPath, captureScreenshot, ensurePngPath } from "../lib/screenshot";
@@ -19,18 +19,6 @@ import { getGlobalOptions } from "../utils/command";
 import { handleCommandError } from "../utils/errors";
 import { outputJson } from "../utils/output";
 
-const LINEAR_ATTACHMENT_MUTATION = `
-  mutation AttachmentCreate($input: AttachmentCreateInput!) {
-    attachmentCreate(input: $input) {
-      success
-      attachment {
-        id
-        url
-      }
-    }
-  }
-`;
-
 export function registerScreenshotCommands(program: Command): void {
   const screenshot = program.command("screenshot").description("Capture and share browser screenshots");
 
@@ -231,15 +219,13 @@ export function registerScreenshotCommands(program: Command): void {
             throw new Error("Unable to attach screenshot to Linear issue: missing Slack file permalink.");
           }
           const linear = getLinearClient();
-          linearAttachment = await linear.request<Record<string, unknown>>(LINEAR_ATTACHMENT_MUTATION, {
-            input: {
-              issueId,
-              title: options.title ?? filename,
-              url: permalink,
-              metadata: {
-                source: "ml-agent",
-                type: "screenshot"
-              }
+          linearAttachment = await createAttachment(linear, {
+            issueId,
+            title: options.title ?? filename,
+            url: permalink,
+            metadata: {
+              source: "ml-agent",
+              type: "screenshot"
             }
           });
         }
@@ -281,14 +267,6 @@ export function registerScreenshotCommands(program: Command): void {
     });
 }
 
-function getLinearClient(): LinearClient {
-  const apiKey = resolveLinearApiKey();
-  if (!apiKey) {
-    throw new Error("Missing Linear API key. Set LINEAR_API_KEY or .ml-agent.config.json");
-  }
-  return new LinearClient(apiKey);
-}
-
 function buildCaptureOptions(url: string, outputPath: string, options: Record<string, unknown>) {
   const width = parseNumberOption(options.width as string | undefined, 1280, "--width");
   const height = parseNumberOption(options.height as string | undefined, 720, "--height");
@@ -3,6 +3,7 @@ import { Command } from "commander";
 import { resolveToken } from "../lib/config";
 import { resolveChannelId } from "../lib/resolvers";
 import { SlackListsClient } from "../lib/slack-client";
+import { parseSlackTimestamp } from "../lib/slack-time";
 import { getGlobalOptions } from "../utils/command";
 import { handleCommandError } from "../utils/errors";
 import { outputJson } from "../utils/output";
@@ -159,22 +160,6 @@ function parseLimit(value: string | undefined, fallback: number): number {
   return limit;
 }
 
-function parseSlackTimestamp(value?: string): string | undefined {
-  if (!value) {
-    return undefined;
-  }
-  const numeric = Number(value);
-  if (Number.isFinite(numeric)) {
-    const seconds = numeric > 1e12 ? Math.floor(numeric / 1000) : numeric;
-    return String(seconds);
-  }
-  const parsed = Date.parse(value);
-  if (!Number.isNaN(parsed)) {
-    return String(Math.floor(parsed / 1000));
-  }
-  throw new Error("--since/--latest must be an ISO timestamp or epoch seconds");
-}
-
 function validateSort(value?: string): "relevance" | "timestamp" {
   if (!value || value === "relevance" || value === "timestamp") {
     return (value ?? "relevance") as "relevance" | "timestamp";
@@ -2,92 +2,20 @@ import { Command } from "commander";
 import { promises as fs } from "fs";
 import path from "path";
 
-import {
-  resolveLinearApiKey,
-  resolveLinearStateSync,
-  resolveLinearTeamId,
-  resolveLinearTeamKey,
-  resolveProjectConfigTargetPath
-} from "../lib/config";
+import { resolveLinearStateSync, resolveProjectConfigTargetPath } from "../lib/config";
 import { LinearClient } from "../lib/linear-client";
+import {
+  fetchTeamCycles,
+  fetchTeamStates,
+  findCurrentCycle,
+  getLinearClient,
+  LinearState,
+  resolveTeamId
+} from "../lib/linear-service";
 import { getGlobalOptions } from "../utils/command";
 import { handleCommandError } from "../utils/errors";
 import { outputJson } from "../utils/output";
 
-const TEAM_CYCLES_QUERY = `
-  query TeamCycles($teamId: String!, $first: Int!) {
-    team(id: $teamId) {
-      id
-      name
-      cycles(first: $first) {
-        nodes {
-          id
-          name
-          number
-          startsAt
-          endsAt
-        }
-      }
-    }
-  }
-`;
-
-const TEAM_STATES_QUERY = `
-  query TeamStates($teamId: String!) {
-    team(id: $teamId) {
-      id
-      name
-      states {
-        nodes {
-          id
-          name
-          type
-        }
-      }
-    }
-  }
-`;
-
-const TEAMS_QUERY = `
-  query Teams {
-    teams {
-      nodes {
-        id
-        key
-        name
-      }
-    }
-  }
-`;
-
-type CycleNode = {
-  id?: string;
-  name?: string;
-  number?: number;
-  startsAt?: string;
-  endsAt?: string;
-};
-
-type TeamCyclesResponse = {
-  team?: {
-    id?: string;
-    name?: string;
-    cycles?: { nodes?: CycleNode[] };
-  };
-};
-
-type TeamStatesResponse = {
-  team?: {
-    id?: string;
-    name?: string;
-    states?: { nodes?: Array<{ id?: string; name?: string; type?: string }> };
-  };
-};
-
-type TeamsResponse = {
-  teams?: { nodes?: Array<{ id?: string; key?: string; name?: string }> };
-};
-
 export function registerSyncCommand(program: Command): void {
   const sync = program.command("sync").description("Sync helper commands");
 
@@ -103,29 +31,14 @@ export function registerSyncCommand(program: Command): void {
     .action(async (options, command: Command) => {
       const globals = getGlobalOptions(command);
       try {
-        const apiKey = resolveLinearApiKey();
-        if (!apiKey) {
-          throw new Error("Missing Linear API key. Set LINEAR_API_KEY or .ml-agent.config.json");
-        }
-        const client = new LinearClient(apiKey);
+        const client = getLinearClient();
         const resolvedTeamId = await resolveTeamId(
           client,
-          options.team as string | undefined,
-          options.teamKey as string | undefined
+          (options.team as string | undefined) ?? (options.teamKey as string | undefined)
         );
-        if (!resolvedTeamId) {
-          throw new Error(
-            "Provide --team/--team-key or set LINEAR_TEAM_ID / LINEAR_TEAM_KEY / .ml-agent.config.json"
-          );
-        }
 
         const limit = parseLimit(options.limit);
-        const result = await client.request<TeamCyclesResponse>(TEAM_CYCLES_QUERY, {
-          teamId: resolvedTeamId,
-          first: limit
-        });
-
-        const cycles = (result.team?.cycles?.nodes ?? []).filter(Boolean);
+        const cycles = await fetchTeamCycles(client, resolvedTeamId, limit);
         const current = findCurrentCycle(cycles);
         const cyclesEnabled = cycles.length > 0;
 
@@ -203,23 +116,6 @@ function parseLimit(value: string | undefined): number {
   return limit;
 }
 
-function findCurrentCycle(cycles: CycleNode[]): CycleNode | null {
-  const now = new Date();
-  for (const cycle of cycles) {
-    if (!cycle?.startsAt || !cycle?.endsAt) {
-      continue;
-    }
-    const start = new Date(cycle.startsAt);
-    const end = new Date(cycle.endsAt);
-    if (!Number.isNaN(start.valueOf()) && !Number.isNaN(end.valueOf())) {
-      if (start <= now && now <= end) {
-        return cycle;
-      }
-    }
-  }
-  return null;
-}
-
 async function updateCycleInConfig(cycleId: string): Promise<string> {
   const configPath = resolveProjectConfigTargetPath();
   let config: Record<string, unknown> = {};
@@ -303,8 +199,7 @@ async function inferStateMap(
   client: LinearClient,
   teamId: string
 ): Promise<Record<string, string>> {
-  const result = await client.request<TeamStatesResponse>(TEAM_STATES_QUERY, { teamId });
-  const states = result.team?.states?.nodes ?? [];
+  const { states } = await fetchTeamStates(client, teamId);
   if (states.length === 0) {
     return {};
   }
@@ -337,9 +232,9 @@ async function inferStateMap(
 }
 
 function findStateByName(
-  states: Array<{ name?: string; type?: string }>,
+  states: LinearState[],
   patterns: RegExp[]
-): { name?: string; type?: string } | undefined {
+): LinearState | undefined {
   for (const state of states) {
     const name = state.name;
     if (!name) {
@@ -353,50 +248,8 @@ function findStateByName(
 }
 
 function findStateByType(
-  states: Array<{ name?: string; type?: string }>,
+  states: LinearState[],
   type: string
-): { name?: string; type?: string } | undefined {
+): LinearState | undefined {
   return states.find((state) => state.type === type);
 }
-
-async function resolveTeamId(
-  client: LinearClient,
-  explicitId?: string,
-  teamKey?: string
-): Promise<string | null> {
-  if (explicitId) {
-    if (looksLikeId(explicitId)) {
-      return explicitId;
-    }
-    teamKey = explicitId;
-  }
-  const configured = resolveLinearTeamId();
-  if (configured) {
-    if (looksLikeId(configured)) {
-      return configured;
-    }
-    if (!teamKey) {
-      teamKey = configured;
-    }
-  }
-  const configuredKey = resolveLinearTeamKey();
-  if (!teamKey && configuredKey) {
-    teamKey = configuredKey;
-  }
-  if (!teamKey) {
-    return null;
-  }
-  const result = await client.request<TeamsResponse>(TEAMS_QUERY);
-  const teams = result.teams?.nodes ?? [];
-  const normalized = teamKey.toLowerCase();
-  const match = teams.find(
-    (team) =>
-      (team.key && team.key.toLowerCase() === normalized) ||
-      (team.name && team.name.toLowerCase() === normalized)
-  );
-  return match?.id ?? null;
-}
-
-function looksLikeId(value: string): boolean {
-  return /^[0-9a-f-]{32,36}$/i.test(value);
-}
@@ -1,9 +1,19 @@
 import { Command } from "commander";
 
-import { resolveToken } from "../lib/config";
+import { resolveApprovalConvention, resolveToken } from "../lib/config";
+import { fetchThreadReplies, loadIssueThreads, selectThreadEntry, ThreadReply } from "../lib/issue-threads";
+import { fetchIssue, getLinearClient, linearThreadScope } from "../lib/linear-service";
+import { evaluateApproval, fetchReactions } from "../lib/reactions";
 import { parseMessageUrl, resolveChannelId } from "../lib/resolvers";
 import { SlackListsClient } from "../lib/slack-client";
-import { getThreadEntry, getThreadEntries, removeThreadEntry, setThreadEntry } from "../lib/thread-map";
+import { extractThreadFromItem } from "../lib/thread-utils";
+import {
+  getThreadEntry,
+  getThreadEntries,
+  removeThreadEntry,
+  setThreadEntry,
+  ThreadEntry
+} from "../lib/thread-map";
 import { getGlobalOptions } from "../utils/command";
 import { handleCommandError } from "../utils/errors";
 import { outputJson } from "../utils/output";
@@ -190,7 +200,7 @@ export function registerThreadsCommands(program: Command): void {
         const authUser = (auth as { user_id?: string }).user_id;
         const authBot = (auth as { bot_id?: string }).bot_id;
 
-        const messages = await fetchThreadMessages(client, channel, threadTs, limit);
+        const messages = await fetchThreadReplies(client, channel, threadTs, limit);
         const { targets, skipped } = filterMessages(messages, authUser, authBot, options.keepRoot, options.force);
 
         const deleted: string[] = [];
@@ -296,55 +306,91 @@ export function registerThreadsCommands(program: Command): void {
         handleCommandError(error, globals.verbose);
       }
     });
-}
 
-type ThreadMessage = {
-  ts?: string;
-  user?: string;
-  bot_id?: string;
-  subtype?: string;
-};
-
-async function fetchThreadMessages(
-  client: SlackListsClient,
-  channel: string,
-  threadTs: string,
-  limit: number
-): Promise<ThreadMessage[]> {
-  const messages: ThreadMessage[] = [];
-  let cursor: string | undefined = undefined;
-  let remaining = limit;
-
-  do {
-    const batchSize = Math.min(remaining, 200);
-    const result = await client.call("conversations.replies", {
-      channel,
-      ts: threadTs,
-      limit: batchSize,
-      cursor
-    });
+  threads
+    .command("approval")
+    .description("Report approval from reactions on a thread root (list item or Linear issue)")
+    .argument("<target>", "List ID (with item ID) or Linear issue ID/identifier")
+    .argument("[item-id]", "Item ID when the target is a list")
+    .option("--message-url <url>", "Slack thread message URL")
+    .option("--channel <channel>", "Channel ID or name")
+    .option("--thread-ts <ts>", "Thread timestamp")
+    .option("--thread-label <label>", "Select a Linear issue thread by label")
+    .action(async (target: string, itemId: string | undefined, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
 
-    const page = (result as { messages?: ThreadMessage[] }).messages ?? [];
-    messages.push(...page);
+      try {
+        let channel = options.channel ? await resolveChannelId(client, options.channel) : undefined;
+        let threadTs = options.threadTs as string | undefined;
+        const messageUrl = options.messageUrl as string | undefined;
 
-    cursor = (result as { response_metadata?: { next_cursor?: string } }).response_metadata?.next_cursor;
-    remaining = limit - messages.length;
-    if (remaining <= 0) {
-      break;
-    }
-  } while (cursor);
+        if ((!channel || !threadTs) && messageUrl) {
+          const parsed = parseMessageUrl(messageUrl);
+          if (!parsed) {
+            throw new Error("Unable to parse message URL");
+          }
+          channel = channel ?? parsed.channel;
+          threadTs = threadTs ?? parsed.ts;
+        }
 
-  return messages.slice(0, limit);
+        if (!channel || !threadTs) {
+          let stored: ThreadEntry | null;
+          if (itemId) {
+            // The item's message column is the canonical thread; the thread map covers items without one.
+            const itemResult = await client.call("slackLists.items.info", { list_id: target, id: itemId });
+            stored =
+              extractThreadFromItem(itemResult as unknown as Record<string, unknown>) ??
+              (await getThreadEntry(target, itemId));
+          } else {
+            const issue = await fetchIssue(getLinearClient(), target);
+            const entries = await loadIssueThreads(linearThreadScope(issue.team?.id), issue, [target, issue.id]);
+            stored = selectThreadEntry(entries, options.threadLabel);
+          }
+          if (stored?.permalink) {
+            const parsed = parseMessageUrl(stored.permalink);
+            if (parsed) {
+              channel = channel ?? parsed.channel;
+              threadTs = threadTs ?? parsed.ts;
+            }
+          }
+          if (stored?.channel && stored?.ts) {
+            channel = channel ?? stored.channel;
+            threadTs = threadTs ?? stored.ts;
+          }
+        }
+
+        if (!channel || !threadTs) {
+          throw new Error("Unable to resolve thread. Provide --message-url or --channel/--thread-ts.");
+        }
+
+        const convention = resolveApprovalConvention();
+        const reactions = await fetchReactions(client, channel, threadTs);
+        // The token's own reactions never count, so an agent can't approve its own request.
+        const authUser = ((await client.authTest()) as { user_id?: string }).user_id;
+        outputJson({
+          ok: true,
+          ...(itemId ? { list_id: target, item_id: itemId } : { issue_id: target }),
+          channel,
+          thread_ts: threadTs,
+          ...evaluateApproval(reactions, convention, authUser ? [authUser] : []),
+          convention,
+          reactions
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
 }
 
 function filterMessages(
-  messages: ThreadMessage[],
+  messages: ThreadReply[],
   authUser?: string,
   authBot?: string,
   keepRoot?: boolean,
   force?: boolean
-): { targets: ThreadMessage[]; skipped: string[] } {
-  const targets: ThreadMessage[] = [];
+): { targets: ThreadReply[]; skipped: string[] } {
+  const targets: ThreadReply[] = [];
   const skipped: string[] = [];
 
   for (const message of messages) {
@@ -0,0 +1,100 @@
+import { Command } from "commander";
+
+import { resolveToken } from "../lib/config";
+import { DirectoryUser, toDirectoryUser } from "../lib/directory";
+import { findLinearUserByEmail, getLinearClient, LinearUser } from "../lib/linear-service";
+import { findUsers, resolveUserId } from "../lib/resolvers";
+import { SlackListsClient } from "../lib/slack-client";
+import { getGlobalOptions } from "../utils/command";
+import { handleCommandError } from "../utils/errors";
+import { outputJson } from "../utils/output";
+
+export function registerUsersCommands(program: Command): void {
+  const users = program.command("users").description("Look up Slack users");
+
+  users
+    .command("find")
+    .description("Search users by handle, display name, real name or email")
+    .argument("<query>", "Name, @handle or email fragment")
+    .option("--limit <count>", "Maximum users to return", "10")
+    .option("--linear", "Include the matching Linear user (by email)", false)
+    .action(async (query: string, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const limit = Number(options.limit);
+        if (!Number.isFinite(limit) || limit <= 0) {
+          throw new Error("--limit must be a positive number");
+        }
+        const matches = await findUsers(client, query, limit);
+        const linear = options.linear ? getLinearClient() : null;
+        const results: Array<Record<string, unknown>> = [];
+        for (const user of matches) {
+          const compact = compactUser(user);
+          if (linear) {
+            compact.linear = compactLinearUser(await findLinearUserByEmail(linear, user.email));
+          }
+          results.push(compact);
+        }
+        outputJson({ ok: true, query, count: results.length, users: results });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+
+  users
+    .command("get")
+    .description("Get one user by ID, @handle or email")
+    .argument("<user>", "User ID, @handle or email")
+    .option("--linear", "Include the matching Linear user (by email)", false)
+    .action(async (input: string, options, command: Command) => {
+      const globals = getGlobalOptions(command);
+      const client = new SlackListsClient(resolveToken(globals));
+
+      try {
+        const id = await resolveUserId(client, input);
+        const result = await client.call("users.info", { user: id });
+        const user = toDirectoryUser((result as { user?: Record<string, unknown> }).user ?? { id });
+        const linear = options.linear ? await findLinearUserByEmail(getLinearClient(), user.email) : undefined;
+        outputJson({
+          ok: true,
+          user: {
+            ...compactUser(user),
+            title: user.title ?? null,
+            display_name: user.display_name ?? null,
+            deleted: user.deleted ?? false,
+            ...(options.linear ? { linear: compactLinearUser(linear ?? null) } : {})
+          }
+        });
+      } catch (error) {
+        handleCommandError(error, globals.verbose);
+      }
+    });
+}
+
+function compactUser(user: DirectoryUser): Record<string, unknown> {
+  return {
+    id: user.id,
+    name: user.name ?? null,
+    real_name: user.real_name ?? null,
+    email: user.email ?? null,
+    tz: user.tz ?? null,
+    is_bot: user.is_bot ?? false,
+    // Users have no channel membership here; is_member means a full workspace member (not a guest or deactivated).
+    is_member: !user.is_guest && !user.deleted
+  };
+}
+
+function compactLinearUser(user: LinearUser | null): Record<string, unknown> | null {
+  if (!user) {
+    return null;
+  }
+  return {
+    id: user.id,
+    name: user.name ?? null,
+    display_name: user.displayName ?? null,
+    email: user.email ?? null,
+    url: user.url ?? null
+  };
+}
@@ -4,19 +4,26 @@ import { Command, CommanderError } from "commander";
 
 import { registerAuthCommands } from "./commands/auth";
 import { registerAccessCommands } from "./commands/access";
+import { registerChannelsCommands } from "./commands/channels";
 import { registerCommentCommands } from "./commands/comments";
+import { registerDirectoryCommands } from "./commands/directory";
 import { registerFilesCommands } from "./commands/files";
 import { registerHelpCommand } from "./commands/help";
+import { registerIdentityCommands } from "./commands/identity";
 import { registerItemsCommands } from "./commands/items";
 import { registerIssuesCommands } from "./commands/issues";
 import { registerLinearCommands } from "./commands/linear";
 import { registerListsCommands } from "./commands/lists";
+import { registerReactCommands } from "./commands/react";
+import { registerScheduledCommands } from "./commands/scheduled";
 import { registerSlackCommands } from "./commands/slack";
 import { registerSchemaCommand } from "./commands/schema";
 import { registerScreenshotCommands } from "./commands/screenshot";
 import { registerSetupCommand } from "./commands/setup";
 import { registerSyncCommand } from "./commands/sync";
 import { registerThreadsCommands } from "./commands/threads";
+import { registerUsersCommands } from "./commands/users";
+import { setActiveProfile } from "./lib/config";
 import { loadEnvFiles } from "./lib/env";
 import { CLI_DESCRIPTION, CLI_NAME, CLI_VERSION } from "./lib/metadata";
 import { formatError, outputError } from "./utils/output";
@@ -31,12 +38,17 @@ program
   .version(CLI_VERSION)
   .option("--token <token>", "Override token (otherwise uses env)")
   .option("--as-user", "Force SLACK_USER_TOKEN")
+  .option("--profile <name>", "Use a named profile from .ml-agent.config.json (or ML_AGENT_PROFILE)")
   .option("--schema <path>", "Path to a list schema JSON file")
   .option("--refresh-schema", "Bypass cached schema and refresh from Slack", false)
   .option("--verbose", "Enable verbose error output", false);
 
 program.exitOverride();
 
+program.hook("preAction", (_program, actionCommand) => {
+  setActiveProfile(actionCommand.optsWithGlobals().profile);
+});
+
 registerAuthCommands(program);
 registerAccessCommands(program);
 registerLinearCommands(program);
@@ -46,6 +58,12 @@ registerSlackCommands(program);
 registerSchemaCommand(program);
 registerItemsCommands(program);
 registerCommentCommands(program);
+registerReactCommands(program);
+registerScheduledCommands(program);
+registerDirectoryCommands(program);
+registerUsersCommands(program);
+registerChannelsCommands(program);
+registerIdentityCommands(program);
 registerFilesCommands(program);
 registerScreenshotCommands(program);
 registerThreadsCommands(program);
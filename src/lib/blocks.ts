@@ -0,0 +1,143 @@
+import { promises as fs } from "fs";
+
+import { fetchIssue, getLinearClient, LinearIssue } from "./linear-service";
+
+export const MESSAGE_TEMPLATES = ["status-update", "question", "review-request"] as const;
+
+export type MessageTemplate = (typeof MESSAGE_TEMPLATES)[number];
+
+export type Block = Record<string, unknown>;
+
+export type BlockOptions = {
+  blocks?: string;
+  template?: string;
+  issue?: string;
+};
+
+const SECTION_TEXT_LIMIT = 3000;
+const HEADER_TEXT_LIMIT = 150;
+
+export async function buildMessageBlocks(
+  options: BlockOptions,
+  text: string,
+  issue?: LinearIssue | null
+): Promise<Block[] | undefined> {
+  if (options.blocks && options.template) {
+    throw new Error("Provide only one of --blocks or --template");
+  }
+  if (options.blocks) {
+    return parseBlocks(options.blocks);
+  }
+  if (!options.template) {
+    return undefined;
+  }
+
+  const template = parseTemplate(options.template);
+  let context = issue ?? null;
+  if (!context && options.issue) {
+    context = await fetchIssue(getLinearClient(), options.issue);
+  }
+  return renderTemplate(template, text, context);
+}
+
+export async function parseBlocks(value: string): Promise<Block[]> {
+  const raw = value.startsWith("@") ? await fs.readFile(value.slice(1), "utf-8") : value;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("--blocks must be valid JSON (or @path to a JSON file)");
+  }
+  const blocks = Array.isArray(parsed) ? parsed : (parsed as { blocks?: unknown })?.blocks;
+  if (!Array.isArray(blocks) || blocks.some((block) => !block || typeof block !== "object")) {
+    throw new Error("--blocks must be a JSON array of Block Kit blocks or an object with a blocks array");
+  }
+  return blocks as Block[];
+}
+
+export function renderTemplate(template: MessageTemplate, text: string, issue: LinearIssue | null): Block[] {
+  const identifier = issue?.identifier ?? issue?.id;
+  const issueLabel = identifier ? `${identifier}${issue?.title ? `: ${issue.title}` : ""}` : null;
+
+  const blocks: Block[] = [];
+  switch (template) {
+    case "status-update":
+      blocks.push(header(issueLabel ? `Status update · ${issueLabel}` : "Status update"));
+      break;
+    case "question":
+      blocks.push(header(issueLabel ? `Question · ${issueLabel}` : "Question"));
+      break;
+    case "review-request":
+      blocks.push(header(issueLabel ? `Review requested · ${issueLabel}` : "Review requested"));
+      break;
+  }
+
+  const fields = issueFields(issue);
+  if (fields.length > 0) {
+    blocks.push({ type: "section", fields });
+  }
+
+  if (text.trim()) {
+    blocks.push({ type: "section", text: mrkdwn(truncate(text, SECTION_TEXT_LIMIT)) });
+  }
+
+  const actions = issueActions(template, issue);
+  if (actions.length > 0) {
+    blocks.push({ type: "actions", elements: actions });
+  }
+
+  return blocks;
+}
+
+function parseTemplate(value: string): MessageTemplate {
+  const normalized = value.trim().toLowerCase() as MessageTemplate;
+  if (!MESSAGE_TEMPLATES.includes(normalized)) {
+    throw new Error(`--template must be one of ${MESSAGE_TEMPLATES.join(", ")}`);
+  }
+  return normalized;
+}
+
+function issueFields(issue: LinearIssue | null): Block[] {
+  if (!issue) {
+    return [];
+  }
+  const fields: Block[] = [];
+  if (issue.identifier) {
+    fields.push(mrkdwn(`*Issue*\n${issue.url ? `<${issue.url}|${issue.identifier}>` : issue.identifier}`));
+  }
+  if (issue.state?.name) {
+    fields.push(mrkdwn(`*State*\n${issue.state.name}`));
+  }
+  fields.push(mrkdwn(`*Assignee*\n${issue.assignee?.name ?? issue.assignee?.email ?? "Unassigned"}`));
+  if (issue.cycle?.name) {
+    fields.push(mrkdwn(`*Cycle*\n${issue.cycle.name}`));
+  }
+  return fields;
+}
+
+function issueActions(template: MessageTemplate, issue: LinearIssue | null): Block[] {
+  if (!issue?.url) {
+    return [];
+  }
+  const label = template === "review-request" ? "Review in Linear" : "Open in Linear";
+  return [
+    {
+      type: "button",
+      text: { type: "plain_text", text: label },
+      url: issue.url,
+      ...(template === "review-request" ? { style: "primary" } : {})
+    }
+  ];
+}
+
+function header(text: string): Block {
+  return { type: "header", text: { type: "plain_text", text: truncate(text, HEADER_TEXT_LIMIT), emoji: true } };
+}
+
+function mrkdwn(text: string): Block {
+  return { type: "mrkdwn", text };
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
@@ -1,35 +1,61 @@
 import { promises as fs } from "fs";
-import { existsSync } from "fs";
 import path from "path";
-import os from "os";
 
 import { ListSchema } from "./types";
 import { mergeSchemas } from "./schema";
-import { resolveProjectName } from "./config";
-
-const NEW_CACHE_DIR = "ml-agent";
+import { resolveLegacyDataDir, resolveLegacyDataPath, resolveProjectDataDir, resolveToken } from "./config";
+import { SlackListsClient } from "./slack-client";
 
 export function getCacheDir(): string {
-  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
-  const project = resolveProjectName();
-  const primary = path.join(base, NEW_CACHE_DIR, "projects", project);
-  if (existsSync(primary)) {
-    return primary;
-  }
-  return primary;
+  return resolveProjectDataDir();
 }
 
- 
+let legacyWorkspaceMatch: Promise<boolean> | undefined;
 
-export function getSchemaCachePath(listId: string): string {
-  return path.join(getCacheDir(), "schemas", `${listId}.json`);
+// A profile reads the pre-profile copy of a file until it writes its own, but only when that copy was
+// written for the profile's Slack workspace; profiles for other workspaces start empty.
+export async function readProjectDataFile(filePath: string): Promise<string | null> {
+  const raw = await readOptionalFile(filePath);
+  if (raw !== null) {
+    return raw;
+  }
+  const legacyPath = resolveLegacyDataPath(filePath);
+  if (!legacyPath) {
+    return null;
+  }
+  const legacy = await readOptionalFile(legacyPath);
+  return legacy !== null && (await legacyDataMatchesProfile()) ? legacy : null;
 }
 
-export async function loadCachedSchema(listId: string): Promise<ListSchema | null> {
-  const filePath = getSchemaCachePath(listId);
+function legacyDataMatchesProfile(): Promise<boolean> {
+  legacyWorkspaceMatch ??= (async () => {
+    const legacyDir = resolveLegacyDataDir();
+    if (!legacyDir) {
+      return false;
+    }
+    // The pre-profile directory caches are named by team_id, which records the workspace the data came from.
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(path.join(legacyDir, "directory"));
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code !== "ENOENT") {
+        throw error;
+      }
+    }
+    const teamIds = files.filter((file) => file.endsWith(".json")).map((file) => file.slice(0, -".json".length));
+    if (teamIds.length === 0) {
+      return false;
+    }
+    const auth = (await new SlackListsClient(resolveToken()).authTest()) as { team_id?: string };
+    return Boolean(auth.team_id && teamIds.includes(auth.team_id));
+  })();
+  return legacyWorkspaceMatch;
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
   try {
-    const raw = await fs.readFile(filePath, "utf-8");
-    return JSON.parse(raw) as ListSchema;
+    return await fs.readFile(filePath, "utf-8");
   } catch (error) {
     const code = (error as { code?: string }).code;
     if (code === "ENOENT") {
@@ -39,6 +65,15 @@ export async function loadCachedSchema(listId: string): Promise<ListSchema | nul
   }
 }
 
+export function getSchemaCachePath(listId: string): string {
+  return path.join(getCacheDir(), "schemas", `${listId}.json`);
+}
+
+export async function loadCachedSchema(listId: string): Promise<ListSchema | null> {
+  const raw = await readProjectDataFile(getSchemaCachePath(listId));
+  return raw ? (JSON.parse(raw) as ListSchema) : null;
+}
+
 export async function saveSchemaCache(listId: string, schema: ListSchema): Promise<void> {
   const filePath = getSchemaCachePath(listId);
   await fs.mkdir(path.dirname(filePath), { recursive: true });
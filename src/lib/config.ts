@@ -14,6 +14,9 @@ type CliConfig = {
 
 let cachedConfig: CliConfig | null | undefined;
 let cachedProjectConfig: ProjectConfig | null | undefined;
+let activeProfile: string | undefined;
+
+export type ProfileConfig = Pick<ProjectConfig, "slack" | "linear" | "identities">;
 
 export type ProjectConfig = {
   project?: {
@@ -21,8 +24,15 @@ export type ProjectConfig = {
   };
   slack?: {
     token?: string;
+    user_token?: string;
     default_channel?: string;
+    directory_ttl_hours?: number;
+    approval?: {
+      approved?: string[];
+      rejected?: string[];
+    };
   };
+  identities?: Array<{ slack: string; linear: string }>;
   linear?: {
     api_key?: string;
     team_id?: string;
@@ -30,14 +40,88 @@ export type ProjectConfig = {
     cycle_id?: string;
     state_map?: Record<string, string>;
     state_sync?: boolean;
+    transitions?: Record<string, string>;
   };
+  default_profile?: string;
+  profiles?: Record<string, ProfileConfig>;
 };
 
+export function setActiveProfile(name?: string): void {
+  const profiles = loadRawProjectConfig()?.profiles ?? {};
+  const selected = name ?? process.env.ML_AGENT_PROFILE ?? loadRawProjectConfig()?.default_profile;
+  if (selected && !profiles[selected]) {
+    const known = Object.keys(profiles);
+    throw new Error(
+      `Unknown profile: ${selected}. ${known.length > 0 ? `Configured profiles: ${known.join(", ")}` : "No profiles are configured."}`
+    );
+  }
+  activeProfile = selected;
+}
+
+export function resolveActiveProfile(): string | undefined {
+  return activeProfile;
+}
+
+export function listProfiles(): string[] {
+  return Object.keys(loadRawProjectConfig()?.profiles ?? {});
+}
+
+export type CredentialSource = "profile" | "env" | "config";
+
+export type ProfileCredential = { value: string; source: CredentialSource } | undefined;
+
+// Same precedence as resolveToken/resolveLinearApiKey: profile, then env, then top-level config.
+export function resolveProfileCredentials(name?: string): { slack: ProfileCredential; linear: ProfileCredential } {
+  const base = loadRawProjectConfig();
+  const profile = name ? base?.profiles?.[name] : undefined;
+  return {
+    slack: pickCredential(
+      profile?.slack?.token,
+      process.env.SLACK_TOKEN ?? process.env.SLACK_BOT_TOKEN ?? process.env.SLACK_USER_TOKEN,
+      base?.slack?.token
+    ),
+    linear: pickCredential(profile?.linear?.api_key, process.env.LINEAR_API_KEY, base?.linear?.api_key)
+  };
+}
+
+export function resolveProjectDataDir(): string {
+  const dir = resolveBaseDataDir();
+  return activeProfile ? path.join(dir, "profiles", sanitizeProjectName(activeProfile)) : dir;
+}
+
+export function resolveLegacyDataDir(): string | undefined {
+  return activeProfile ? resolveBaseDataDir() : undefined;
+}
+
+export function resolveLegacyDataPath(filePath: string): string | undefined {
+  const legacyDir = resolveLegacyDataDir();
+  if (!legacyDir) {
+    return undefined;
+  }
+  const relative = path.relative(resolveProjectDataDir(), filePath);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return path.join(legacyDir, relative);
+}
+
 export function resolveToken(options: TokenOptions = {}): string {
   if (options.token) {
     return options.token;
   }
 
+  const profileSlack = activeProfileConfig()?.slack;
+  if (options.asUser && profileSlack?.token) {
+    // The env user token may belong to another workspace, so a profile must name its own.
+    if (!profileSlack.user_token) {
+      throw new Error(`--as-user needs profiles.${activeProfile}.slack.user_token in .ml-agent.config.json`);
+    }
+    return profileSlack.user_token;
+  }
+  if (profileSlack?.token) {
+    return profileSlack.token;
+  }
+
   if (options.asUser) {
     const userToken = process.env.SLACK_USER_TOKEN ?? process.env.SLACK_TOKEN;
     if (userToken) {
@@ -65,6 +149,10 @@ export function resolveSchemaPath(cliPath?: string): string | undefined {
 }
 
 export function resolveDefaultChannel(listId?: string): string | undefined {
+  const profileChannel = activeProfileConfig()?.slack?.default_channel;
+  if (profileChannel) {
+    return profileChannel;
+  }
   if (process.env.SLACK_LIST_DEFAULT_CHANNEL) {
     return process.env.SLACK_LIST_DEFAULT_CHANNEL;
   }
@@ -82,7 +170,35 @@ export function resolveDefaultChannel(listId?: string): string | undefined {
   return config?.default_channel;
 }
 
+export function resolveApprovalConvention(): { approved: string[]; rejected: string[] } {
+  const approval = loadProjectConfig()?.slack?.approval;
+  return {
+    approved: approval?.approved ?? ["white_check_mark", "heavy_check_mark"],
+    rejected: approval?.rejected ?? ["x"]
+  };
+}
+
+export function resolveDirectoryTtlMs(): number {
+  const raw = process.env.ML_AGENT_DIRECTORY_TTL_HOURS ?? loadProjectConfig()?.slack?.directory_ttl_hours;
+  const hours = Number(raw);
+  return (raw !== undefined && Number.isFinite(hours) && hours >= 0 ? hours : 24) * 3_600_000;
+}
+
+export function resolveIdentityOverrides(): Array<{ slack: string; linear: string }> {
+  const identities = loadProjectConfig()?.identities;
+  if (!Array.isArray(identities)) {
+    return [];
+  }
+  return identities.filter(
+    (entry) => entry && typeof entry.slack === "string" && typeof entry.linear === "string"
+  );
+}
+
 export function resolveLinearApiKey(): string | undefined {
+  const profileValue = activeProfileConfig()?.linear?.api_key;
+  if (profileValue) {
+    return profileValue;
+  }
   if (process.env.LINEAR_API_KEY) {
     return process.env.LINEAR_API_KEY;
   }
@@ -91,6 +207,10 @@ export function resolveLinearApiKey(): string | undefined {
 }
 
 export function resolveLinearTeamId(): string | undefined {
+  const profileValue = activeProfileConfig()?.linear?.team_id;
+  if (profileValue) {
+    return profileValue;
+  }
   if (process.env.LINEAR_TEAM_ID) {
     return process.env.LINEAR_TEAM_ID;
   }
@@ -99,6 +219,10 @@ export function resolveLinearTeamId(): string | undefined {
 }
 
 export function resolveLinearTeamKey(): string | undefined {
+  const profileValue = activeProfileConfig()?.linear?.team_key;
+  if (profileValue) {
+    return profileValue;
+  }
   if (process.env.LINEAR_TEAM_KEY) {
     return process.env.LINEAR_TEAM_KEY;
   }
@@ -107,7 +231,8 @@ export function resolveLinearTeamKey(): string | undefined {
 }
 
 export function resolveLinearCycleId(): string | undefined {
-  const value = process.env.LINEAR_CYCLE_ID ?? loadProjectConfig()?.linear?.cycle_id;
+  const value =
+    activeProfileConfig()?.linear?.cycle_id ?? process.env.LINEAR_CYCLE_ID ?? loadProjectConfig()?.linear?.cycle_id;
   return sanitizePlaceholderId(value, ["cycle_id", "your_cycle_id", "your-cycle-id"]);
 }
 
@@ -116,6 +241,11 @@ export function resolveLinearStateMap(): Record<string, string> | undefined {
   return project?.linear?.state_map;
 }
 
+export function resolveLinearTransitions(): Record<string, string> | undefined {
+  const project = loadProjectConfig();
+  return project?.linear?.transitions;
+}
+
 export function resolveLinearStateSync(): boolean {
   const project = loadProjectConfig();
   return Boolean(project?.linear?.state_sync);
@@ -172,10 +302,7 @@ export function resolveThreadMapPath(): string {
   if (process.env.ML_AGENT_THREAD_MAP_PATH) {
     return process.env.ML_AGENT_THREAD_MAP_PATH;
   }
-
-  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
-  const project = resolveProjectName();
-  return path.join(base, "ml-agent", "projects", project, "threads.json");
+  return path.join(resolveProjectDataDir(), "threads.json");
 }
 
 function loadConfig(): CliConfig | null {
@@ -213,7 +340,40 @@ function resolveConfigPath(): string | null {
   return primary;
 }
 
+function pickCredential(profile?: string, env?: string, config?: string): ProfileCredential {
+  if (profile) {
+    return { value: profile, source: "profile" };
+  }
+  if (env) {
+    return { value: env, source: "env" };
+  }
+  return config ? { value: config, source: "config" } : undefined;
+}
+
+function resolveBaseDataDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(base, "ml-agent", "projects", resolveProjectName());
+}
+
 function loadProjectConfig(): ProjectConfig | null {
+  const base = loadRawProjectConfig();
+  const profile = activeProfileConfig();
+  if (!base || !profile) {
+    return base;
+  }
+  return {
+    ...base,
+    slack: { ...base.slack, ...profile.slack },
+    linear: { ...base.linear, ...profile.linear },
+    identities: profile.identities ?? base.identities
+  };
+}
+
+function activeProfileConfig(): ProfileConfig | undefined {
+  return activeProfile ? loadRawProjectConfig()?.profiles?.[activeProfile] : undefined;
+}
+
+function loadRawProjectConfig(): ProjectConfig | null {
   if (cachedProjectConfig !== undefined) {
     return cachedProjectConfig;
   }
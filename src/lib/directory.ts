@@ -0,0 +1,225 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { getCacheDir, readProjectDataFile } from "./cache";
+import { resolveDirectoryTtlMs } from "./config";
+import { SlackListsClient } from "./slack-client";
+
+export type DirectoryKind = "users" | "channels";
+
+export const DIRECTORY_KINDS: DirectoryKind[] = ["users", "channels"];
+
+export type DirectoryUser = {
+  id: string;
+  name?: string;
+  real_name?: string;
+  display_name?: string;
+  email?: string;
+  title?: string;
+  tz?: string;
+  is_bot?: boolean;
+  is_guest?: boolean;
+  deleted?: boolean;
+};
+
+export type DirectoryChannel = {
+  id: string;
+  name?: string;
+  is_private?: boolean;
+  is_archived?: boolean;
+  is_member?: boolean;
+  num_members?: number;
+};
+
+type DirectorySection<T> = {
+  fetched_at: string;
+  entries: T[];
+};
+
+export type DirectoryCache = {
+  team_id: string;
+  team?: string;
+  users?: DirectorySection<DirectoryUser>;
+  channels?: DirectorySection<DirectoryChannel>;
+};
+
+type DirectoryEntry<K extends DirectoryKind> = K extends "users" ? DirectoryUser : DirectoryChannel;
+
+const teamIds = new WeakMap<SlackListsClient, Promise<{ team_id: string; team?: string }>>();
+const pendingRefreshes = new Map<string, Promise<unknown>>();
+const refreshedThisRun = new Set<string>();
+
+export async function resolveWorkspace(client: SlackListsClient): Promise<{ team_id: string; team?: string }> {
+  let pending = teamIds.get(client);
+  if (!pending) {
+    pending = client.authTest().then((result) => {
+      const auth = result as { team_id?: string; team?: string };
+      if (!auth.team_id) {
+        throw new Error("auth.test did not return a team_id");
+      }
+      return { team_id: auth.team_id, team: auth.team };
+    });
+    teamIds.set(client, pending);
+  }
+  return pending;
+}
+
+export function getDirectoryCachePath(teamId: string): string {
+  return path.join(getCacheDir(), "directory", `${teamId}.json`);
+}
+
+export async function loadDirectoryCache(teamId: string): Promise<DirectoryCache | null> {
+  const raw = await readProjectDataFile(getDirectoryCachePath(teamId));
+  return raw ? (JSON.parse(raw) as DirectoryCache) : null;
+}
+
+export async function clearDirectoryCache(teamId: string, kind?: DirectoryKind): Promise<boolean> {
+  const cache = await loadDirectoryCache(teamId);
+  if (!cache) {
+    return false;
+  }
+  if (!kind) {
+    // Keep an empty file rather than deleting it, so a profile doesn't fall back to the pre-profile copy.
+    await saveDirectoryCache({ team_id: teamId, team: cache.team });
+    return true;
+  }
+  const existed = Boolean(cache[kind]);
+  delete cache[kind];
+  await saveDirectoryCache(cache);
+  return existed;
+}
+
+export function isDirectoryStale(fetchedAt: string | undefined, ttlMs = resolveDirectoryTtlMs()): boolean {
+  if (!fetchedAt) {
+    return true;
+  }
+  const time = Date.parse(fetchedAt);
+  return Number.isNaN(time) || Date.now() - time > ttlMs;
+}
+
+export async function getDirectory<K extends DirectoryKind>(
+  client: SlackListsClient,
+  kind: K
+): Promise<Array<DirectoryEntry<K>>> {
+  const workspace = await resolveWorkspace(client);
+  const cache = await loadDirectoryCache(workspace.team_id);
+  const section = cache?.[kind] as DirectorySection<DirectoryEntry<K>> | undefined;
+  // A CLI run is too short-lived to refresh in the background, so a stale copy is refreshed inline
+  // (once per TTL) and refresh errors surface like any other Slack failure.
+  if (!section || isDirectoryStale(section.fetched_at)) {
+    return refreshDirectory(client, kind);
+  }
+  return section.entries;
+}
+
+export async function searchDirectory<K extends DirectoryKind>(
+  client: SlackListsClient,
+  kind: K,
+  predicate: (entry: DirectoryEntry<K>) => boolean
+): Promise<{ matches: Array<DirectoryEntry<K>>; entries: Array<DirectoryEntry<K>> }> {
+  let entries = await getDirectory(client, kind);
+  let matches = entries.filter(predicate);
+  if (matches.length > 0) {
+    return { matches, entries };
+  }
+  // A miss may just mean the cache predates the user or channel; refresh once per run and retry.
+  const workspace = await resolveWorkspace(client);
+  if (!refreshedThisRun.has(`${workspace.team_id}:${kind}`)) {
+    entries = await refreshDirectory(client, kind);
+    matches = entries.filter(predicate);
+  }
+  return { matches, entries };
+}
+
+export async function refreshDirectory<K extends DirectoryKind>(
+  client: SlackListsClient,
+  kind: K
+): Promise<Array<DirectoryEntry<K>>> {
+  const workspace = await resolveWorkspace(client);
+  const key = `${workspace.team_id}:${kind}`;
+  let pending = pendingRefreshes.get(key) as Promise<Array<DirectoryEntry<K>>> | undefined;
+  if (!pending) {
+    pending = (async () => {
+      const entries = (kind === "users" ? await fetchUsers(client) : await fetchChannels(client)) as Array<
+        DirectoryEntry<K>
+      >;
+      const cache = (await loadDirectoryCache(workspace.team_id)) ?? { team_id: workspace.team_id };
+      cache.team = workspace.team ?? cache.team;
+      (cache as Record<string, unknown>)[kind] = { fetched_at: new Date().toISOString(), entries };
+      await saveDirectoryCache(cache);
+      refreshedThisRun.add(key);
+      return entries;
+    })().finally(() => pendingRefreshes.delete(key));
+    pendingRefreshes.set(key, pending);
+  }
+  return pending;
+}
+
+async function saveDirectoryCache(cache: DirectoryCache): Promise<void> {
+  const filePath = getDirectoryCachePath(cache.team_id);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(cache, null, 2), "utf-8");
+}
+
+async function fetchUsers(client: SlackListsClient): Promise<DirectoryUser[]> {
+  const users: DirectoryUser[] = [];
+  let cursor: string | undefined = undefined;
+
+  do {
+    const result = await client.usersList({ limit: 200, cursor });
+    const page = (result as { members?: Array<Record<string, unknown>> }).members ?? [];
+    users.push(...page.map(toDirectoryUser));
+    cursor = (result as { response_metadata?: { next_cursor?: string } }).response_metadata?.next_cursor;
+  } while (cursor);
+
+  return users;
+}
+
+async function fetchChannels(client: SlackListsClient): Promise<DirectoryChannel[]> {
+  const channels: DirectoryChannel[] = [];
+  let cursor: string | undefined = undefined;
+
+  do {
+    const result = await client.conversationsList({
+      limit: 200,
+      cursor,
+      types: "public_channel,private_channel"
+    });
+    const page = (result as { channels?: Array<Record<string, unknown>> }).channels ?? [];
+    channels.push(...page.map(toDirectoryChannel));
+    cursor = (result as { response_metadata?: { next_cursor?: string } }).response_metadata?.next_cursor;
+  } while (cursor);
+
+  return channels;
+}
+
+export function toDirectoryUser(user: Record<string, unknown>): DirectoryUser {
+  const profile = (user.profile ?? {}) as Record<string, unknown>;
+  return {
+    id: String(user.id),
+    name: asString(user.name),
+    real_name: asString(profile.real_name) ?? asString(user.real_name),
+    display_name: asString(profile.display_name),
+    email: asString(profile.email),
+    title: asString(profile.title),
+    tz: asString(user.tz),
+    is_bot: user.is_bot === true || undefined,
+    is_guest: user.is_restricted === true || user.is_ultra_restricted === true || undefined,
+    deleted: user.deleted === true || undefined
+  };
+}
+
+export function toDirectoryChannel(channel: Record<string, unknown>): DirectoryChannel {
+  return {
+    id: String(channel.id),
+    name: asString(channel.name),
+    is_private: channel.is_private === true || undefined,
+    is_archived: channel.is_archived === true || undefined,
+    is_member: channel.is_member === true || undefined,
+    num_members: typeof channel.num_members === "number" ? channel.num_members : undefined
+  };
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
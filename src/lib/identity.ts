@@ -0,0 +1,164 @@
+import { resolveIdentityOverrides } from "./config";
+import { DirectoryUser, getDirectory, toDirectoryUser } from "./directory";
+import { LinearClient, LinearApiError } from "./linear-client";
+import { fetchUsers, LinearUser } from "./linear-service";
+import { ResolutionError, resolveUserId } from "./resolvers";
+import { SlackListsClient } from "./slack-client";
+
+export type IdentityLink = {
+  slack_id: string;
+  slack_name: string | null;
+  linear_id: string;
+  linear_name: string | null;
+  email: string | null;
+  source: "config" | "email";
+};
+
+export type IdentityOverride = {
+  slack: string;
+  linear: string;
+  slack_id?: string;
+  linear_id?: string;
+  error?: string;
+};
+
+export function isSlackUserReference(input: string): boolean {
+  const trimmed = input.trim();
+  return trimmed.startsWith("@") || /^<@[A-Z0-9]+>$/.test(trimmed) || /^[UW][A-Z0-9]{6,}$/.test(trimmed);
+}
+
+export function findLinearUser(users: LinearUser[], input: string): LinearUser | undefined {
+  const normalized = input.trim().toLowerCase();
+  return users.find((user) =>
+    [user.id, user.email, user.name, user.displayName].some((value) => value?.toLowerCase() === normalized)
+  );
+}
+
+export async function loadIdentityOverrides(
+  slack: SlackListsClient,
+  linear: LinearClient
+): Promise<IdentityOverride[]> {
+  const users = await fetchUsers(linear);
+  const overrides: IdentityOverride[] = [];
+  for (const entry of resolveIdentityOverrides()) {
+    const override: IdentityOverride = { ...entry };
+    overrides.push(override);
+    try {
+      override.slack_id = await resolveUserId(slack, entry.slack);
+    } catch (error) {
+      override.error = (error as Error)?.message ?? String(error);
+      continue;
+    }
+    const linearUser = findLinearUser(users, entry.linear);
+    if (!linearUser?.id) {
+      override.error = `Unable to resolve Linear user: ${entry.linear}`;
+      continue;
+    }
+    override.linear_id = linearUser.id;
+  }
+  return overrides;
+}
+
+export async function buildIdentityMap(
+  slack: SlackListsClient,
+  linear: LinearClient
+): Promise<{ links: IdentityLink[]; unmatched: LinearUser[]; overrides: IdentityOverride[] }> {
+  const [linearUsers, slackUsers, overrides] = await Promise.all([
+    fetchUsers(linear),
+    getDirectory(slack, "users"),
+    loadIdentityOverrides(slack, linear)
+  ]);
+  const slackById = new Map(slackUsers.map((user) => [user.id, user]));
+  const slackByEmail = new Map(
+    slackUsers.filter((user) => user.email && !user.deleted).map((user) => [user.email!.toLowerCase(), user])
+  );
+
+  const links: IdentityLink[] = [];
+  const unmatched: LinearUser[] = [];
+  for (const user of linearUsers) {
+    if (!user.id) {
+      continue;
+    }
+    const override = overrides.find((entry) => entry.linear_id === user.id && entry.slack_id);
+    const slackUser = override
+      ? slackById.get(override.slack_id!) ?? { id: override.slack_id! }
+      : user.email
+        ? slackByEmail.get(user.email.toLowerCase())
+        : undefined;
+    if (!slackUser) {
+      unmatched.push(user);
+      continue;
+    }
+    links.push(toLink(slackUser, user, override ? "config" : "email"));
+  }
+  return { links, unmatched, overrides };
+}
+
+export async function slackIdForLinearUser(
+  slack: SlackListsClient,
+  linear: LinearClient,
+  user: LinearUser
+): Promise<string | null> {
+  const override = (await loadIdentityOverrides(slack, linear)).find(
+    (entry) => entry.slack_id && entry.linear_id && entry.linear_id === user.id
+  );
+  if (override?.slack_id) {
+    return override.slack_id;
+  }
+  if (!user.email) {
+    return null;
+  }
+  try {
+    return await resolveUserId(slack, user.email);
+  } catch (error) {
+    if (error instanceof ResolutionError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function linearIdForSlackUser(
+  slack: SlackListsClient,
+  linear: LinearClient,
+  input: string
+): Promise<string> {
+  const slackId = await resolveUserId(slack, input);
+  const override = (await loadIdentityOverrides(slack, linear)).find(
+    (entry) => entry.slack_id === slackId && entry.linear_id
+  );
+  if (override?.linear_id) {
+    return override.linear_id;
+  }
+
+  const email = await slackUserEmail(slack, slackId);
+  const match = email ? (await fetchUsers(linear)).find((user) => user.email?.toLowerCase() === email) : undefined;
+  if (!match?.id) {
+    throw new LinearApiError(
+      `No Linear user matches Slack user ${input}${email ? ` (${email})` : ""}. Map one with \`ml-agent identity set\`.`,
+      { code: "linear_not_found" }
+    );
+  }
+  return match.id;
+}
+
+async function slackUserEmail(slack: SlackListsClient, slackId: string): Promise<string | undefined> {
+  const cached = (await getDirectory(slack, "users")).find((user) => user.id === slackId);
+  if (cached?.email) {
+    return cached.email.toLowerCase();
+  }
+  const result = await slack.call("users.info", { user: slackId });
+  const user = (result as { user?: Record<string, unknown> }).user;
+  return user ? toDirectoryUser(user).email?.toLowerCase() : undefined;
+}
+
+function toLink(slackUser: DirectoryUser, linearUser: LinearUser, source: IdentityLink["source"]): IdentityLink {
+  return {
+    slack_id: slackUser.id,
+    slack_name: slackUser.name ?? slackUser.real_name ?? null,
+    linear_id: linearUser.id!,
+    linear_name: linearUser.displayName ?? linearUser.name ?? null,
+    email: linearUser.email ?? slackUser.email ?? null,
+    source
+  };
+}
@@ -0,0 +1,161 @@
+import { LinearIssue } from "./linear-service";
+import { parseMessageUrl } from "./resolvers";
+import { SlackListsClient } from "./slack-client";
+import { getThreadEntries, ThreadEntry } from "./thread-map";
+
+export type ThreadReply = {
+  ts?: string;
+  user?: string;
+  bot_id?: string;
+  subtype?: string;
+  text?: string;
+  thread_ts?: string;
+  [key: string]: unknown;
+};
+
+export async function loadIssueThreads(
+  scope: string,
+  issue: LinearIssue,
+  keys: Array<string | undefined>
+): Promise<ThreadEntry[]> {
+  const uniqueKeys = Array.from(new Set(keys.filter((key): key is string => Boolean(key))));
+  let combined: ThreadEntry[] = [];
+  for (const key of uniqueKeys) {
+    combined = mergeThreadEntries(combined, await getThreadEntries(scope, key));
+  }
+  return mergeThreadEntries(combined, extractThreadsFromIssue(issue));
+}
+
+export async function fetchThreadReplies(
+  client: SlackListsClient,
+  channel: string,
+  threadTs: string,
+  limit: number
+): Promise<ThreadReply[]> {
+  const page = await fetchThreadRepliesPage(client, channel, threadTs, { limit });
+  return page.messages;
+}
+
+export async function fetchThreadRepliesPage(
+  client: SlackListsClient,
+  channel: string,
+  threadTs: string,
+  options: { limit: number; cursor?: string; oldest?: string }
+): Promise<{ messages: ThreadReply[]; nextCursor: string | null }> {
+  const messages: ThreadReply[] = [];
+  let cursor = options.cursor;
+  let nextCursor: string | null = null;
+
+  do {
+    const batchSize = Math.min(options.limit - messages.length, 200);
+    const result = await client.call("conversations.replies", {
+      channel,
+      ts: threadTs,
+      limit: batchSize,
+      cursor,
+      oldest: options.oldest
+    });
+
+    const page = (result as { messages?: ThreadReply[] }).messages ?? [];
+    // conversations.replies always returns the parent message, even when it is older than `oldest`
+    messages.push(
+      ...page.filter((message) => !options.oldest || Number(message.ts ?? 0) > Number(options.oldest))
+    );
+
+    cursor = (result as { response_metadata?: { next_cursor?: string } }).response_metadata?.next_cursor || undefined;
+    nextCursor = cursor ?? null;
+  } while (cursor && messages.length < options.limit);
+
+  return { messages: messages.slice(0, options.limit), nextCursor };
+}
+
+export function extractThreadsFromIssue(issue: LinearIssue): ThreadEntry[] {
+  const attachments = issue.attachments?.nodes ?? [];
+  const entries: ThreadEntry[] = [];
+  for (const attachment of attachments) {
+    if (!attachment?.url) {
+      continue;
+    }
+    if (!attachment.url.includes("slack.com/archives/")) {
+      continue;
+    }
+    const parsed = parseMessageUrl(attachment.url);
+    if (parsed) {
+      entries.push({ permalink: attachment.url, channel: parsed.channel, ts: parsed.ts });
+    }
+  }
+  return entries;
+}
+
+export function mergeThreadEntries(existing: ThreadEntry[], incoming: ThreadEntry[]): ThreadEntry[] {
+  const merged = [...existing];
+  for (const entry of incoming) {
+    if (!entry) {
+      continue;
+    }
+    const index = merged.findIndex((candidate) => matchesThread(candidate, entry));
+    if (index < 0) {
+      merged.push(entry);
+    } else {
+      merged[index] = { ...entry, ...merged[index] };
+    }
+  }
+  return sortThreads(merged);
+}
+
+export function selectThreadEntry(entries: ThreadEntry[], label?: string): ThreadEntry | null {
+  if (entries.length === 0) {
+    return null;
+  }
+  const sorted = sortThreads(entries);
+  if (label) {
+    const normalized = label.toLowerCase();
+    const labeled = sorted.filter((entry) => entry.label?.toLowerCase() === normalized);
+    if (labeled.length > 0) {
+      return labeled[labeled.length - 1];
+    }
+  }
+  return sorted[sorted.length - 1];
+}
+
+function sortThreads(entries: ThreadEntry[]): ThreadEntry[] {
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => {
+      const timeDiff = parseThreadTime(a.entry) - parseThreadTime(b.entry);
+      if (timeDiff !== 0) {
+        return timeDiff;
+      }
+      return a.index - b.index;
+    })
+    .map(({ entry }) => entry);
+}
+
+function matchesThread(a: ThreadEntry, b: ThreadEntry): boolean {
+  if (a.ts && b.ts && a.ts === b.ts) {
+    return true;
+  }
+  if (a.permalink && b.permalink && a.permalink === b.permalink) {
+    return true;
+  }
+  if (a.channel && b.channel && a.ts && b.ts) {
+    return a.channel === b.channel && a.ts === b.ts;
+  }
+  return false;
+}
+
+function parseThreadTime(entry: ThreadEntry): number {
+  if (entry.updated_at) {
+    const time = Date.parse(entry.updated_at);
+    if (!Number.isNaN(time)) {
+      return time;
+    }
+  }
+  if (entry.created_at) {
+    const time = Date.parse(entry.created_at);
+    if (!Number.isNaN(time)) {
+      return time;
+    }
+  }
+  return 0;
+}
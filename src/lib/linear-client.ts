@@ -1,50 +1,234 @@
+type GraphQLError = { message: string; extensions?: Record<string, unknown> };
+
 type GraphQLResponse<T> = {
   data?: T;
-  errors?: Array<{ message: string; extensions?: Record<string, unknown> }>;
+  errors?: GraphQLError[];
 };
 
+const LINEAR_API_URL = "https://api.linear.app/graphql";
+const MAX_BACKOFF_MS = 60_000;
+const CONNECT_ERROR_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT"]);
+
+export type LinearErrorCode =
+  | "linear_auth_failed"
+  | "linear_forbidden"
+  | "linear_not_found"
+  | "linear_rate_limited"
+  | "linear_validation"
+  | "linear_unavailable"
+  | "linear_network_error";
+
+export class LinearApiError extends Error {
+  status?: number;
+  code?: LinearErrorCode;
+  extensionCode?: string;
+  retryAfterMs?: number;
+  data: { status?: number; extension_code?: string; errors?: GraphQLError[] };
+
+  constructor(
+    message: string,
+    options: {
+      status?: number;
+      errors?: GraphQLError[];
+      retryAfterMs?: number;
+      code?: LinearErrorCode;
+    } = {}
+  ) {
+    super(message);
+    this.name = "LinearApiError";
+    this.status = options.status;
+    this.extensionCode = extractExtensionCode(options.errors);
+    this.code = options.code ?? classifyLinearError(options.status, this.extensionCode, message);
+    this.retryAfterMs = options.retryAfterMs;
+    this.data = { status: options.status, extension_code: this.extensionCode, errors: options.errors };
+  }
+}
+
 export class LinearClient {
   private token: string;
+  private attempts: number;
 
-  constructor(token: string) {
+  constructor(token: string, attempts = 3) {
     this.token = token;
+    this.attempts = attempts;
   }
 
   async request<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
-    const response = await fetch("https://api.linear.app/graphql", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: normalizeAuthHeader(this.token)
-      },
-      body: JSON.stringify({ query, variables })
-    });
+    let attempt = 0;
+    while (true) {
+      try {
+        return await this.send<T>(query, variables);
+      } catch (error) {
+        if (!isRetryable(error, isMutation(query)) || attempt >= this.attempts - 1) {
+          throw error;
+        }
+        await sleep(backoffMs(error, attempt));
+        attempt += 1;
+      }
+    }
+  }
+
+  private async send<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(LINEAR_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: normalizeAuthHeader(this.token)
+        },
+        body: JSON.stringify({ query, variables })
+      });
+    } catch (error) {
+      throw new LinearNetworkError(
+        `Linear API request failed: ${(error as Error)?.message ?? String(error)}`,
+        CONNECT_ERROR_CODES.has(String((error as { cause?: { code?: unknown } })?.cause?.code))
+      );
+    }
 
+    const retryAfterMs = parseRetryAfter(response.headers);
     const text = await response.text();
     let payload: GraphQLResponse<T>;
     try {
       payload = JSON.parse(text) as GraphQLResponse<T>;
     } catch (error) {
-      throw new Error(`Linear API returned non-JSON response: ${text.slice(0, 200)}`);
+      throw new LinearApiError(`Linear API returned non-JSON response: ${text.slice(0, 200)}`, {
+        status: response.status,
+        retryAfterMs
+      });
     }
 
     if (!response.ok) {
       const message = payload.errors?.[0]?.message ?? response.statusText;
-      throw new Error(`Linear API error: ${message}`);
+      throw new LinearApiError(`Linear API error: ${message}`, {
+        status: response.status,
+        errors: payload.errors,
+        retryAfterMs
+      });
     }
 
     if (payload.errors && payload.errors.length > 0) {
-      throw new Error(`Linear API error: ${payload.errors[0].message}`);
+      throw new LinearApiError(`Linear API error: ${payload.errors[0].message}`, {
+        status: response.status,
+        errors: payload.errors,
+        retryAfterMs
+      });
     }
 
     if (!payload.data) {
-      throw new Error("Linear API returned empty data.");
+      throw new LinearApiError("Linear API returned empty data.", { status: response.status });
     }
 
     return payload.data;
   }
 }
 
+class LinearNetworkError extends LinearApiError {
+  notSent: boolean;
+
+  constructor(message: string, notSent = false) {
+    super(message, { code: "linear_network_error" });
+    this.name = "LinearNetworkError";
+    this.notSent = notSent;
+  }
+}
+
+function classifyLinearError(
+  status: number | undefined,
+  extensionCode: string | undefined,
+  message: string
+): LinearErrorCode | undefined {
+  const code = extensionCode?.toUpperCase().replace(/\s+/g, "_");
+  if (status === 429 || code === "RATELIMITED") {
+    return "linear_rate_limited";
+  }
+  if (status === 401 || code === "AUTHENTICATION_ERROR") {
+    return "linear_auth_failed";
+  }
+  if (status === 403 || code === "FORBIDDEN") {
+    return "linear_forbidden";
+  }
+  if (code === "ENTITY_NOT_FOUND" || code === "NOT_FOUND" || /not found|could not find/i.test(message)) {
+    return "linear_not_found";
+  }
+  if (
+    code === "INVALID_INPUT" ||
+    code === "BAD_USER_INPUT" ||
+    code === "GRAPHQL_VALIDATION_FAILED" ||
+    code === "GRAPHQL_PARSE_FAILED" ||
+    status === 400
+  ) {
+    return "linear_validation";
+  }
+  if (status !== undefined && status >= 500) {
+    return "linear_unavailable";
+  }
+  return undefined;
+}
+
+function extractExtensionCode(errors?: GraphQLError[]): string | undefined {
+  const extensions = errors?.[0]?.extensions;
+  if (!extensions) {
+    return undefined;
+  }
+  if (typeof extensions.code === "string") {
+    return extensions.code;
+  }
+  if (typeof extensions.type === "string") {
+    return extensions.type;
+  }
+  return undefined;
+}
+
+function isRateLimited(error: LinearApiError): boolean {
+  return error.code === "linear_rate_limited";
+}
+
+// A mutation that timed out or hit a 5xx may already have been applied, so only retry it when
+// Linear rejected it up front (rate limit) or the connection never opened.
+function isRetryable(error: unknown, mutation: boolean): boolean {
+  if (error instanceof LinearNetworkError) {
+    return !mutation || error.notSent;
+  }
+  if (!(error instanceof LinearApiError)) {
+    return false;
+  }
+  return isRateLimited(error) || (!mutation && error.code === "linear_unavailable");
+}
+
+function isMutation(query: string): boolean {
+  return /^\s*mutation\b/.test(query.replace(/^\s*#.*$/gm, ""));
+}
+
+function backoffMs(error: unknown, attempt: number): number {
+  if (error instanceof LinearApiError && isRateLimited(error) && error.retryAfterMs !== undefined) {
+    return Math.min(Math.max(error.retryAfterMs, 1000), MAX_BACKOFF_MS);
+  }
+  return Math.min(1000 * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
+function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(date - Date.now(), 0);
+    }
+  }
+
+  const resets = [headers.get("x-ratelimit-requests-reset"), headers.get("x-ratelimit-complexity-reset")]
+    .map((value) => Number(value))
+    .filter((value) => Number.isFinite(value) && value > 0);
+  if (resets.length > 0) {
+    return Math.max(Math.max(...resets) - Date.now(), 0);
+  }
+  return undefined;
+}
+
 function normalizeAuthHeader(token: string): string {
   const trimmed = token.trim();
   if (/^bearer\s+/i.test(trimmed)) {
@@ -52,3 +236,7 @@ function normalizeAuthHeader(token: string): string {
   }
   return trimmed;
 }
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
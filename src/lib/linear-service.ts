@@ -0,0 +1,1077 @@
+import { resolveLinearApiKey, resolveLinearTeamId, resolveLinearTeamKey } from "./config";
+import { LinearApiError, LinearClient } from "./linear-client";
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  description
+  url
+  team { id key name }
+  state { id name type }
+  assignee { id name email }
+  cycle { id name }
+  priority
+  updatedAt
+  createdAt
+`;
+
+const VIEWER_QUERY = `
+  query Viewer {
+    viewer {
+      id
+      name
+      email
+    }
+  }
+`;
+
+const TEAMS_QUERY = `
+  query Teams {
+    teams {
+      nodes {
+        id
+        key
+        name
+      }
+    }
+  }
+`;
+
+const USERS_QUERY = `
+  query Users($first: Int!) {
+    users(first: $first) {
+      nodes {
+        id
+        name
+        displayName
+        email
+        url
+      }
+    }
+  }
+`;
+
+const TEAM_STATES_QUERY = `
+  query TeamStates($teamId: String!) {
+    team(id: $teamId) {
+      id
+      name
+      states {
+        nodes {
+          id
+          name
+          type
+          position
+        }
+      }
+    }
+  }
+`;
+
+const TEAM_CYCLES_QUERY = `
+  query TeamCycles($teamId: String!, $first: Int!) {
+    team(id: $teamId) {
+      id
+      name
+      cycles(first: $first) {
+        nodes {
+          id
+          name
+          number
+          startsAt
+          endsAt
+        }
+      }
+    }
+  }
+`;
+
+const TEAM_LABELS_QUERY = `
+  query TeamLabels($teamId: String!, $first: Int!, $after: String) {
+    team(id: $teamId) {
+      labels(first: $first, after: $after) {
+        nodes {
+          id
+          name
+          team { id }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+const WORKSPACE_LABELS_QUERY = `
+  query WorkspaceLabels($first: Int!, $after: String) {
+    issueLabels(first: $first, after: $after, filter: { team: { null: true } }) {
+      nodes {
+        id
+        name
+        team { id }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+const TEAM_PROJECTS_QUERY = `
+  query TeamProjects($teamId: String!, $first: Int!) {
+    team(id: $teamId) {
+      id
+      projects(first: $first) {
+        nodes {
+          id
+          name
+          state
+        }
+      }
+    }
+  }
+`;
+
+const TEAM_ISSUES_QUERY = `
+  query TeamIssues($teamId: String!, $first: Int!, $after: String, $filter: IssueFilter) {
+    team(id: $teamId) {
+      id
+      name
+      issues(first: $first, after: $after, filter: $filter, orderBy: updatedAt) {
+        edges {
+          cursor
+          node {
+            ${ISSUE_FIELDS}
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+const VIEWER_ISSUES_QUERY = `
+  query ViewerIssues($first: Int!, $after: String, $filter: IssueFilter) {
+    viewer {
+      id
+      assignedIssues(first: $first, after: $after, filter: $filter, orderBy: updatedAt) {
+        nodes {
+          ${ISSUE_FIELDS}
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+const ISSUE_REF_FIELDS = `
+  id
+  identifier
+  title
+  state { id name type }
+`;
+
+const ISSUE_QUERY = `
+  query Issue($id: String!) {
+    issue(id: $id) {
+      ${ISSUE_FIELDS}
+      parent {
+        ${ISSUE_REF_FIELDS}
+      }
+      children(first: 100) {
+        nodes {
+          ${ISSUE_REF_FIELDS}
+          assignee { id name email }
+        }
+      }
+      relations {
+        nodes {
+          id
+          type
+          relatedIssue {
+            ${ISSUE_REF_FIELDS}
+          }
+        }
+      }
+      inverseRelations {
+        nodes {
+          id
+          type
+          issue {
+            ${ISSUE_REF_FIELDS}
+          }
+        }
+      }
+      attachments {
+        nodes {
+          id
+          url
+          title
+          subtitle
+          createdAt
+        }
+      }
+    }
+  }
+`;
+
+const ISSUE_SEARCH_QUERY = `
+  query IssueSearch($query: String!, $first: Int!) {
+    issueSearch(query: $query, first: $first) {
+      nodes {
+        ${ISSUE_FIELDS}
+      }
+    }
+  }
+`;
+
+const ISSUE_COMMENTS_QUERY = `
+  query IssueComments($id: String!, $first: Int!, $after: String) {
+    issue(id: $id) {
+      id
+      comments(first: $first, after: $after) {
+        nodes {
+          id
+          body
+          createdAt
+          updatedAt
+          user {
+            id
+            name
+            displayName
+            email
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+const ISSUE_HISTORY_QUERY = `
+  query IssueHistory($id: String!, $first: Int!, $after: String) {
+    issue(id: $id) {
+      id
+      history(first: $first, after: $after) {
+        nodes {
+          id
+          createdAt
+          actor { id name email }
+          fromState { id name type }
+          toState { id name type }
+          fromAssignee { id name email }
+          toAssignee { id name email }
+          addedLabels { id name }
+          removedLabels { id name }
+          fromPriority
+          toPriority
+          fromTitle
+          toTitle
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+const ISSUE_CREATE_MUTATION = `
+  mutation IssueCreate($input: IssueCreateInput!) {
+    issueCreate(input: $input) {
+      success
+      issue {
+        ${ISSUE_FIELDS}
+      }
+    }
+  }
+`;
+
+const ISSUE_UPDATE_MUTATION = `
+  mutation IssueUpdate($id: String!, $input: IssueUpdateInput!) {
+    issueUpdate(id: $id, input: $input) {
+      success
+      issue {
+        ${ISSUE_FIELDS}
+      }
+    }
+  }
+`;
+
+const ISSUE_RELATION_CREATE_MUTATION = `
+  mutation IssueRelationCreate($input: IssueRelationCreateInput!) {
+    issueRelationCreate(input: $input) {
+      success
+      issueRelation {
+        id
+        type
+        issue { id identifier }
+        relatedIssue { id identifier }
+      }
+    }
+  }
+`;
+
+const ISSUE_RELATION_DELETE_MUTATION = `
+  mutation IssueRelationDelete($id: String!) {
+    issueRelationDelete(id: $id) {
+      success
+    }
+  }
+`;
+
+const COMMENT_CREATE_MUTATION = `
+  mutation CommentCreate($input: CommentCreateInput!) {
+    commentCreate(input: $input) {
+      success
+      comment {
+        id
+        body
+        url
+      }
+    }
+  }
+`;
+
+const ATTACHMENT_CREATE_MUTATION = `
+  mutation AttachmentCreate($input: AttachmentCreateInput!) {
+    attachmentCreate(input: $input) {
+      success
+      attachment {
+        id
+        url
+      }
+    }
+  }
+`;
+
+export type LinearUser = {
+  id?: string;
+  name?: string;
+  displayName?: string;
+  email?: string;
+  url?: string;
+};
+
+export type LinearTeam = {
+  id?: string;
+  key?: string;
+  name?: string;
+};
+
+export type LinearState = {
+  id?: string;
+  name?: string;
+  type?: string;
+  position?: number;
+};
+
+export type LinearCycle = {
+  id?: string;
+  name?: string;
+  number?: number;
+  startsAt?: string;
+  endsAt?: string;
+};
+
+export type LinearLabel = {
+  id?: string;
+  name?: string;
+  team?: { id?: string } | null;
+};
+
+export type LinearProject = {
+  id?: string;
+  name?: string;
+  state?: string;
+};
+
+export type LinearAttachment = {
+  id?: string;
+  url?: string;
+  title?: string;
+  subtitle?: string;
+  createdAt?: string;
+};
+
+export type LinearIssueRef = {
+  id?: string;
+  identifier?: string;
+  title?: string;
+  state?: LinearState;
+  assignee?: LinearUser;
+};
+
+export type LinearIssueRelation = {
+  id?: string;
+  type?: string;
+  issue?: LinearIssueRef;
+  relatedIssue?: LinearIssueRef;
+};
+
+export type LinearIssue = {
+  id: string;
+  identifier?: string;
+  title?: string;
+  description?: string;
+  url?: string;
+  team?: LinearTeam;
+  state?: LinearState;
+  assignee?: LinearUser;
+  cycle?: { id?: string; name?: string };
+  priority?: number;
+  parent?: LinearIssueRef | null;
+  children?: { nodes?: LinearIssueRef[] };
+  relations?: { nodes?: LinearIssueRelation[] };
+  inverseRelations?: { nodes?: LinearIssueRelation[] };
+  attachments?: { nodes?: LinearAttachment[] };
+  updatedAt?: string;
+  createdAt?: string;
+};
+
+export type LinearComment = {
+  id?: string;
+  body?: string;
+  url?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  user?: LinearUser;
+};
+
+export type IssueFilter = Record<string, unknown>;
+
+export type PageInfo = {
+  hasNextPage?: boolean;
+  endCursor?: string;
+};
+
+export type IssueMutationPayload = {
+  success?: boolean;
+  issue?: LinearIssue;
+};
+
+export type IssueRelationMutationPayload = {
+  success?: boolean;
+  issueRelation?: LinearIssueRelation;
+};
+
+export type CommentMutationPayload = {
+  success?: boolean;
+  comment?: LinearComment;
+};
+
+export type AttachmentMutationPayload = {
+  success?: boolean;
+  attachment?: { id?: string; url?: string };
+};
+
+type TeamStatesResponse = {
+  team?: LinearTeam & { states?: { nodes?: LinearState[] } };
+};
+
+type TeamCyclesResponse = {
+  team?: LinearTeam & { cycles?: { nodes?: LinearCycle[] } };
+};
+
+type TeamProjectsResponse = {
+  team?: LinearTeam & { projects?: { nodes?: LinearProject[] } };
+};
+
+type TeamIssuesResponse = {
+  team?: LinearTeam & {
+    issues?: { edges?: Array<{ cursor?: string; node?: LinearIssue }>; pageInfo?: PageInfo };
+  };
+};
+
+type ViewerIssuesResponse = {
+  viewer?: LinearUser & {
+    assignedIssues?: { nodes?: LinearIssue[]; pageInfo?: PageInfo };
+  };
+};
+
+export type LinearIssueHistory = {
+  id?: string;
+  createdAt?: string;
+  actor?: LinearUser | null;
+  fromState?: LinearState | null;
+  toState?: LinearState | null;
+  fromAssignee?: LinearUser | null;
+  toAssignee?: LinearUser | null;
+  addedLabels?: LinearLabel[] | null;
+  removedLabels?: LinearLabel[] | null;
+  fromPriority?: number | null;
+  toPriority?: number | null;
+  fromTitle?: string | null;
+  toTitle?: string | null;
+};
+
+type IssueHistoryResponse = {
+  issue?: {
+    id?: string;
+    history?: { nodes?: LinearIssueHistory[]; pageInfo?: PageInfo };
+  };
+};
+
+type IssueCommentsResponse = {
+  issue?: {
+    id?: string;
+    comments?: { nodes?: LinearComment[]; pageInfo?: PageInfo };
+  };
+};
+
+const teamsCache = new Map<string, Promise<LinearTeam[]>>();
+const usersCache = new Map<string, Promise<LinearUser[]>>();
+const teamStatesCache = new Map<string, Promise<{ team: LinearTeam | null; states: LinearState[] }>>();
+const teamLabelsCache = new Map<string, Promise<LinearLabel[]>>();
+const teamProjectsCache = new Map<string, Promise<LinearProject[]>>();
+
+export function getLinearClient(): LinearClient {
+  const apiKey = resolveLinearApiKey();
+  if (!apiKey) {
+    throw new LinearApiError("Missing Linear API key. Set LINEAR_API_KEY or .ml-agent.config.json", {
+      code: "linear_auth_failed"
+    });
+  }
+  return new LinearClient(apiKey);
+}
+
+export function looksLikeId(value: string): boolean {
+  return /^[0-9a-f-]{32,36}$/i.test(value);
+}
+
+export function parsePriority(value: string): number {
+  const normalized = value.trim().toLowerCase();
+  const named: Record<string, number> = {
+    none: 0,
+    no_priority: 0,
+    urgent: 1,
+    high: 2,
+    medium: 3,
+    normal: 3,
+    low: 4
+  };
+  if (Object.hasOwn(named, normalized)) {
+    return named[normalized];
+  }
+  const numeric = normalized ? Number(normalized) : Number.NaN;
+  if (Number.isInteger(numeric) && numeric >= 0 && numeric <= 4) {
+    return numeric;
+  }
+  throw new Error("--priority must be 0-4 or one of none, urgent, high, medium, low");
+}
+
+export function linearThreadScope(teamId?: string): string {
+  return teamId ? `linear:${teamId}` : "linear";
+}
+
+export async function fetchViewer(client: LinearClient): Promise<LinearUser> {
+  const result = await client.request<{ viewer: LinearUser }>(VIEWER_QUERY);
+  return result.viewer;
+}
+
+export async function fetchTeams(client: LinearClient): Promise<LinearTeam[]> {
+  return memoize(teamsCache, "all", async () => {
+    const result = await client.request<{ teams?: { nodes?: LinearTeam[] } }>(TEAMS_QUERY);
+    return result.teams?.nodes ?? [];
+  });
+}
+
+export async function fetchUsers(client: LinearClient, first = 200): Promise<LinearUser[]> {
+  return memoize(usersCache, String(first), async () => {
+    const result = await client.request<{ users?: { nodes?: LinearUser[] } }>(USERS_QUERY, { first });
+    return result.users?.nodes ?? [];
+  });
+}
+
+export async function findLinearUserByEmail(client: LinearClient, email?: string): Promise<LinearUser | null> {
+  if (!email) {
+    return null;
+  }
+  const normalized = email.toLowerCase();
+  const users = await fetchUsers(client);
+  return users.find((user) => user.email?.toLowerCase() === normalized) ?? null;
+}
+
+export async function fetchTeamStates(
+  client: LinearClient,
+  teamId: string
+): Promise<{ team: LinearTeam | null; states: LinearState[] }> {
+  return memoize(teamStatesCache, teamId, async () => {
+    const result = await client.request<TeamStatesResponse>(TEAM_STATES_QUERY, { teamId });
+    if (!result.team) {
+      return { team: null, states: [] };
+    }
+    const { states, ...team } = result.team;
+    return { team, states: states?.nodes ?? [] };
+  });
+}
+
+export async function fetchTeamCycles(
+  client: LinearClient,
+  teamId: string,
+  first: number
+): Promise<LinearCycle[]> {
+  const result = await client.request<TeamCyclesResponse>(TEAM_CYCLES_QUERY, { teamId, first });
+  return (result.team?.cycles?.nodes ?? []).filter(Boolean);
+}
+
+export async function fetchTeamLabels(client: LinearClient, teamId: string): Promise<LinearLabel[]> {
+  return memoize(teamLabelsCache, teamId, async () => {
+    const labels: LinearLabel[] = [];
+    let after: string | undefined;
+    do {
+      const result = await client.request<{
+        team?: { labels?: { nodes?: LinearLabel[]; pageInfo?: PageInfo } };
+      }>(TEAM_LABELS_QUERY, { teamId, first: 250, after });
+      labels.push(...(result.team?.labels?.nodes ?? []));
+      after = result.team?.labels?.pageInfo?.hasNextPage ? result.team.labels.pageInfo.endCursor : undefined;
+    } while (after);
+
+    // Workspace labels have no team but can be applied to any team's issues.
+    do {
+      const result = await client.request<{
+        issueLabels?: { nodes?: LinearLabel[]; pageInfo?: PageInfo };
+      }>(WORKSPACE_LABELS_QUERY, { first: 250, after });
+      labels.push(...(result.issueLabels?.nodes ?? []));
+      after = result.issueLabels?.pageInfo?.hasNextPage ? result.issueLabels.pageInfo.endCursor : undefined;
+    } while (after);
+    return labels;
+  });
+}
+
+export async function fetchTeamProjects(client: LinearClient, teamId: string): Promise<LinearProject[]> {
+  return memoize(teamProjectsCache, teamId, async () => {
+    const result = await client.request<TeamProjectsResponse>(TEAM_PROJECTS_QUERY, { teamId, first: 250 });
+    return result.team?.projects?.nodes ?? [];
+  });
+}
+
+export async function fetchTeamIssuesPage(
+  client: LinearClient,
+  teamId: string,
+  page: { first: number; after?: string; filter?: IssueFilter }
+): Promise<{ issues: LinearIssue[]; cursors: string[]; pageInfo: PageInfo }> {
+  const result = await client.request<TeamIssuesResponse>(TEAM_ISSUES_QUERY, {
+    teamId,
+    first: page.first,
+    after: page.after,
+    filter: page.filter && Object.keys(page.filter).length > 0 ? page.filter : undefined
+  });
+  const edges = (result.team?.issues?.edges ?? []).filter((edge) => edge?.node);
+  return {
+    issues: edges.map((edge) => edge.node!),
+    cursors: edges.map((edge) => edge.cursor ?? ""),
+    pageInfo: result.team?.issues?.pageInfo ?? {}
+  };
+}
+
+export async function fetchViewerIssuesPage(
+  client: LinearClient,
+  page: { first: number; after?: string; filter?: IssueFilter }
+): Promise<{ issues: LinearIssue[]; pageInfo: PageInfo }> {
+  const result = await client.request<ViewerIssuesResponse>(VIEWER_ISSUES_QUERY, {
+    first: page.first,
+    after: page.after,
+    filter: page.filter && Object.keys(page.filter).length > 0 ? page.filter : undefined
+  });
+  return {
+    issues: (result.viewer?.assignedIssues?.nodes ?? []).filter(Boolean),
+    pageInfo: result.viewer?.assignedIssues?.pageInfo ?? {}
+  };
+}
+
+export async function fetchIssue(client: LinearClient, issueId: string): Promise<LinearIssue> {
+  const result = await client.request<{ issue?: LinearIssue }>(ISSUE_QUERY, { id: issueId });
+  if (!result.issue) {
+    throw new LinearApiError(`Linear issue not found: ${issueId}`, { code: "linear_not_found" });
+  }
+  return result.issue;
+}
+
+export async function searchIssues(client: LinearClient, query: string, first: number): Promise<LinearIssue[]> {
+  const result = await client.request<{ issueSearch?: { nodes?: LinearIssue[] } }>(ISSUE_SEARCH_QUERY, {
+    query,
+    first
+  });
+  return result.issueSearch?.nodes ?? [];
+}
+
+export async function fetchIssueComments(
+  client: LinearClient,
+  issueId: string,
+  limit: number
+): Promise<{ comments: LinearComment[]; hasNextPage: boolean }> {
+  const comments: LinearComment[] = [];
+  let cursor: string | undefined = undefined;
+  let hasNextPage = false;
+
+  while (comments.length < limit) {
+    const batchSize = Math.min(50, limit - comments.length);
+    const result: IssueCommentsResponse = await client.request<IssueCommentsResponse>(ISSUE_COMMENTS_QUERY, {
+      id: issueId,
+      first: batchSize,
+      after: cursor
+    });
+
+    const page = result.issue?.comments?.nodes ?? [];
+    comments.push(...page);
+
+    const pageInfo: PageInfo | undefined = result.issue?.comments?.pageInfo;
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
+      hasNextPage = false;
+      break;
+    }
+    cursor = pageInfo.endCursor;
+    hasNextPage = true;
+  }
+
+  return {
+    comments: comments.slice(0, limit),
+    hasNextPage
+  };
+}
+
+export async function fetchIssueHistory(
+  client: LinearClient,
+  issueId: string,
+  limit: number
+): Promise<{ history: LinearIssueHistory[]; hasNextPage: boolean }> {
+  const history: LinearIssueHistory[] = [];
+  let cursor: string | undefined = undefined;
+  let hasNextPage = false;
+
+  while (history.length < limit) {
+    const batchSize = Math.min(50, limit - history.length);
+    const result: IssueHistoryResponse = await client.request<IssueHistoryResponse>(ISSUE_HISTORY_QUERY, {
+      id: issueId,
+      first: batchSize,
+      after: cursor
+    });
+
+    history.push(...(result.issue?.history?.nodes ?? []));
+
+    const pageInfo: PageInfo | undefined = result.issue?.history?.pageInfo;
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
+      hasNextPage = false;
+      break;
+    }
+    cursor = pageInfo.endCursor;
+    hasNextPage = true;
+  }
+
+  return {
+    history: history.slice(0, limit),
+    hasNextPage
+  };
+}
+
+export async function createIssue(
+  client: LinearClient,
+  input: Record<string, unknown>
+): Promise<IssueMutationPayload> {
+  const result = await client.request<{ issueCreate?: IssueMutationPayload }>(ISSUE_CREATE_MUTATION, { input });
+  return result.issueCreate ?? {};
+}
+
+export async function updateIssue(
+  client: LinearClient,
+  issueId: string,
+  input: Record<string, unknown>
+): Promise<IssueMutationPayload> {
+  const result = await client.request<{ issueUpdate?: IssueMutationPayload }>(ISSUE_UPDATE_MUTATION, {
+    id: issueId,
+    input
+  });
+  return result.issueUpdate ?? {};
+}
+
+export async function createIssueRelation(
+  client: LinearClient,
+  input: { issueId: string; relatedIssueId: string; type: string }
+): Promise<IssueRelationMutationPayload> {
+  const result = await client.request<{ issueRelationCreate?: IssueRelationMutationPayload }>(
+    ISSUE_RELATION_CREATE_MUTATION,
+    { input }
+  );
+  return result.issueRelationCreate ?? {};
+}
+
+export async function deleteIssueRelation(client: LinearClient, relationId: string): Promise<{ success?: boolean }> {
+  const result = await client.request<{ issueRelationDelete?: { success?: boolean } }>(
+    ISSUE_RELATION_DELETE_MUTATION,
+    { id: relationId }
+  );
+  return result.issueRelationDelete ?? {};
+}
+
+export async function createComment(
+  client: LinearClient,
+  input: Record<string, unknown>
+): Promise<CommentMutationPayload> {
+  const result = await client.request<{ commentCreate?: CommentMutationPayload }>(COMMENT_CREATE_MUTATION, {
+    input
+  });
+  return result.commentCreate ?? {};
+}
+
+export async function createAttachment(
+  client: LinearClient,
+  input: Record<string, unknown>
+): Promise<AttachmentMutationPayload> {
+  const result = await client.request<{ attachmentCreate?: AttachmentMutationPayload }>(
+    ATTACHMENT_CREATE_MUTATION,
+    { input }
+  );
+  return result.attachmentCreate ?? {};
+}
+
+export async function resolveTeamIdByKey(client: LinearClient, teamKey: string): Promise<string | null> {
+  const teams = await fetchTeams(client);
+  const normalized = teamKey.toLowerCase();
+  const match = teams.find(
+    (team) =>
+      (team.key && team.key.toLowerCase() === normalized) ||
+      (team.name && team.name.toLowerCase() === normalized)
+  );
+  return match?.id ?? null;
+}
+
+export async function resolveTeamId(client: LinearClient, option?: string): Promise<string> {
+  const configured = resolveLinearTeamId();
+  const configuredKey = resolveLinearTeamKey();
+  const candidate = option ?? configured;
+
+  if (candidate && looksLikeId(candidate)) {
+    return candidate;
+  }
+
+  const key = candidate ?? configuredKey;
+  if (!key) {
+    throw new Error(
+      "Provide --team (id or key) or set LINEAR_TEAM_ID / LINEAR_TEAM_KEY / .ml-agent.config.json"
+    );
+  }
+
+  const resolved = await resolveTeamIdByKey(client, key);
+  if (!resolved) {
+    throw new LinearApiError(`Unable to resolve Linear team for key: ${key}`, { code: "linear_not_found" });
+  }
+  return resolved;
+}
+
+export async function resolveStateId(
+  client: LinearClient,
+  teamId: string,
+  input?: string
+): Promise<string | undefined> {
+  if (!input) {
+    return undefined;
+  }
+  if (looksLikeId(input)) {
+    return input;
+  }
+
+  const { states } = await fetchTeamStates(client, teamId);
+  const normalized = input.toLowerCase();
+  const match = states.find((state) => state.name?.toLowerCase() === normalized);
+  if (!match?.id) {
+    throw new LinearApiError(`Unknown Linear state: ${input}`, { code: "linear_not_found" });
+  }
+  return match.id;
+}
+
+export async function resolveLabelIds(
+  client: LinearClient,
+  teamId: string,
+  inputs: string[]
+): Promise<string[]> {
+  if (inputs.length === 0) {
+    return [];
+  }
+  if (inputs.every(looksLikeId)) {
+    return inputs;
+  }
+
+  const labels = await fetchTeamLabels(client, teamId);
+  return inputs.map((input) => {
+    if (looksLikeId(input)) {
+      return input;
+    }
+    const normalized = input.toLowerCase();
+    const match = labels.find((label) => label.name?.toLowerCase() === normalized);
+    if (!match?.id) {
+      throw new LinearApiError(`Unknown Linear label: ${input}`, { code: "linear_not_found" });
+    }
+    return match.id;
+  });
+}
+
+export async function resolveProjectId(
+  client: LinearClient,
+  teamId: string,
+  input?: string
+): Promise<string | undefined> {
+  if (!input) {
+    return undefined;
+  }
+  if (looksLikeId(input)) {
+    return input;
+  }
+
+  const projects = await fetchTeamProjects(client, teamId);
+  const normalized = input.toLowerCase();
+  const match = projects.find((project) => project.name?.toLowerCase() === normalized);
+  if (!match?.id) {
+    throw new LinearApiError(`Unknown Linear project: ${input}`, { code: "linear_not_found" });
+  }
+  return match.id;
+}
+
+export async function resolveIssueId(client: LinearClient, input?: string): Promise<string | undefined> {
+  if (!input) {
+    return undefined;
+  }
+  if (looksLikeId(input)) {
+    return input;
+  }
+  const issue = await fetchIssue(client, input);
+  return issue.id;
+}
+
+export async function resolveAssigneeId(client: LinearClient, input?: string): Promise<string | undefined> {
+  if (!input) {
+    return undefined;
+  }
+  if (looksLikeId(input)) {
+    return input;
+  }
+
+  const users = await fetchUsers(client);
+  const normalized = input.toLowerCase();
+  const match = users.find((user) => {
+    if (user.email && user.email.toLowerCase() === normalized) {
+      return true;
+    }
+    if (user.name && user.name.toLowerCase() === normalized) {
+      return true;
+    }
+    if (user.displayName && user.displayName.toLowerCase() === normalized) {
+      return true;
+    }
+    return false;
+  });
+
+  if (!match?.id) {
+    throw new LinearApiError(`Unable to resolve assignee: ${input}`, { code: "linear_not_found" });
+  }
+  return match.id;
+}
+
+export const ISSUE_TRANSITIONS = ["start", "review", "done", "cancel", "reopen"] as const;
+
+export type IssueTransition = (typeof ISSUE_TRANSITIONS)[number];
+
+export function selectTransitionState(
+  states: LinearState[],
+  transition: IssueTransition
+): LinearState | undefined {
+  const byPosition = (type: string) =>
+    states
+      .filter((state) => state.type === type && state.id)
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+  switch (transition) {
+    case "start": {
+      const started = byPosition("started");
+      return started.find((state) => !/review/i.test(state.name ?? "")) ?? started[0];
+    }
+    case "review": {
+      const started = byPosition("started");
+      const named = started.find((state) => /review/i.test(state.name ?? ""));
+      if (named) {
+        return named;
+      }
+      return started.length > 1 ? started[started.length - 1] : undefined;
+    }
+    case "done":
+      return byPosition("completed")[0];
+    case "cancel":
+      return byPosition("canceled")[0];
+    case "reopen":
+      return byPosition("unstarted")[0] ?? byPosition("backlog")[0];
+  }
+}
+
+export async function resolveTransitionState(
+  client: LinearClient,
+  teamId: string,
+  transition: IssueTransition,
+  override?: string
+): Promise<LinearState> {
+  const { states } = await fetchTeamStates(client, teamId);
+  if (override) {
+    const normalized = override.toLowerCase();
+    const match = states.find(
+      (state) => state.id === override || state.name?.toLowerCase() === normalized
+    );
+    if (!match) {
+      throw new LinearApiError(`Unknown Linear state for ${transition} transition: ${override}`, {
+        code: "linear_not_found"
+      });
+    }
+    return match;
+  }
+
+  const match = selectTransitionState(states, transition);
+  if (!match) {
+    throw new LinearApiError(
+      `No workflow state found for ${transition} transition. Set linear.transitions.${transition} in .ml-agent.config.json`,
+      { code: "linear_not_found" }
+    );
+  }
+  return match;
+}
+
+export function findCurrentCycle(cycles: LinearCycle[]): LinearCycle | null {
+  const now = new Date();
+  for (const cycle of cycles) {
+    if (!cycle?.startsAt || !cycle?.endsAt) {
+      continue;
+    }
+    const start = new Date(cycle.startsAt);
+    const end = new Date(cycle.endsAt);
+    if (!Number.isNaN(start.valueOf()) && !Number.isNaN(end.valueOf())) {
+      if (start <= now && now <= end) {
+        return cycle;
+      }
+    }
+  }
+  return null;
+}
+
+function memoize<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const pending = load().catch((error: unknown) => {
+    cache.delete(key);
+    throw error;
+  });
+  cache.set(key, pending);
+  return pending;
+}
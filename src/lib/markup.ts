@@ -0,0 +1,236 @@
+import { LinearClient } from "./linear-client";
+import { fetchUsers } from "./linear-service";
+import { SlackListsClient } from "./slack-client";
+
+const PLACEHOLDER = "\u0001";
+const BOLD = "\u0002";
+const SLACK_TOKEN_PATTERN = /<(?:[@#!][^<>\s][^<>]*|(?:https?|mailto):[^<>\s]+)>/g;
+
+export async function markdownToSlack(
+  text: string,
+  context: { slack: SlackListsClient; linear: LinearClient }
+): Promise<string> {
+  const mentions = await resolveSlackMentions(context.slack, context.linear, extractMarkdownMentions(text));
+  return markdownToMrkdwn(text, mentions);
+}
+
+export async function slackToMarkdown(
+  text: string,
+  context: { slack: SlackListsClient | null; linear: LinearClient; emphasis?: boolean }
+): Promise<string> {
+  const mentions = context.slack
+    ? await resolveLinearMentions(context.slack, context.linear, extractSlackMentions(text))
+    : {};
+  return mrkdwnToMarkdown(text, mentions, { emphasis: context.emphasis ?? true });
+}
+
+export function markdownToMrkdwn(text: string, mentions: Record<string, string> = {}): string {
+  return mapOutsideCode(
+    text,
+    (fence) => escapeMrkdwn(fence.replace(/^```[^\n`]*\n/, "```\n")),
+    (segment) => {
+      const protectedTokens: string[] = [];
+      const protect = (value: string) => {
+        protectedTokens.push(value);
+        return `${PLACEHOLDER}${protectedTokens.length - 1}${PLACEHOLDER}`;
+      };
+
+      // Keep Slack tokens the author already wrote, then escape the rest so the tokens generated
+      // below are the only raw angle brackets.
+      let result = escapeMrkdwn(segment.replace(SLACK_TOKEN_PATTERN, (token) => protect(token)))
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_match, alt: string, url: string) =>
+          protect(alt ? `<${url}|${alt}>` : `<${url}>`)
+        )
+        .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_match, label: string, url: string) =>
+          protect(`<${url}|${label}>`)
+        )
+        .replace(/(^|[\s(])@([A-Za-z0-9._+-]+(?:@[A-Za-z0-9.-]+\.[A-Za-z]+)?)/g, (match, lead: string, handle: string) => {
+          const id = mentions[handle.toLowerCase()];
+          return id ? `${lead}${protect(`<@${id}>`)}` : match;
+        })
+        .split("\n")
+        .map((line) => {
+          const heading = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+          if (heading) {
+            return `${BOLD}${heading[1].replace(/\*\*|__/g, "")}${BOLD}`;
+          }
+          return line.replace(/^(\s*)[-*+]\s+/, "$1• ");
+        })
+        .join("\n");
+
+      result = result
+        .replace(/\*\*(.+?)\*\*/g, `${BOLD}$1${BOLD}`)
+        .replace(/__(.+?)__/g, `${BOLD}$1${BOLD}`)
+        .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\w)/g, "$1_$2_")
+        .replace(/~~(.+?)~~/g, "~$1~")
+        .replace(new RegExp(BOLD, "g"), "*");
+
+      return restore(result, protectedTokens);
+    },
+    escapeMrkdwn
+  );
+}
+
+export function mrkdwnToMarkdown(
+  text: string,
+  mentions: Record<string, string> = {},
+  options: { emphasis?: boolean } = {}
+): string {
+  const emphasis = options.emphasis ?? true;
+  return mapOutsideCode(
+    text,
+    (fence) => decodeEntities(fence),
+    (segment) => {
+      const protectedTokens: string[] = [];
+      const protect = (value: string) => {
+        protectedTokens.push(value);
+        return `${PLACEHOLDER}${protectedTokens.length - 1}${PLACEHOLDER}`;
+      };
+
+      let result = segment
+        .replace(/<@([UW][A-Z0-9]+)(?:\|([^>]+))?>/g, (_match, id: string, name?: string) =>
+          protect(mentions[id] ?? `@${name ?? id}`)
+        )
+        .replace(/<#[A-Z0-9]+\|([^>]+)>/g, (_match, name: string) => protect(`#${name}`))
+        .replace(/<!subteam\^[A-Z0-9]+\|([^>]+)>/g, (_match, handle: string) => protect(handle))
+        .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, (_match, name: string) => protect(`@${name}`))
+        .replace(/<((?:https?|mailto):[^|>]+)\|([^>]+)>/g, (_match, url: string, label: string) =>
+          protect(`[${label}](${url})`)
+        )
+        .replace(/<((?:https?|mailto):[^>]+)>/g, (_match, url: string) => protect(url))
+        .replace(/^(\s*)[•◦▪]\s+/gm, "$1- ");
+
+      if (emphasis) {
+        result = result
+          .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\w)/g, "$1**$2**")
+          .replace(/(^|[^~\w])~(?!\s)([^~\n]+?)~(?!\w)/g, "$1~~$2~~");
+      }
+
+      return decodeEntities(restore(result, protectedTokens));
+    }
+  );
+}
+
+export function extractMarkdownMentions(text: string): string[] {
+  const handles = new Set<string>();
+  const pattern = /(^|[\s(])@([A-Za-z0-9._+-]+(?:@[A-Za-z0-9.-]+\.[A-Za-z]+)?)/g;
+  for (const match of stripCode(text).matchAll(pattern)) {
+    handles.add(match[2].toLowerCase());
+  }
+  return Array.from(handles);
+}
+
+export function extractSlackMentions(text: string): string[] {
+  const ids = new Set<string>();
+  for (const match of stripCode(text).matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]+)?>/g)) {
+    ids.add(match[1]);
+  }
+  return Array.from(ids);
+}
+
+async function resolveSlackMentions(
+  slack: SlackListsClient,
+  linear: LinearClient,
+  handles: string[]
+): Promise<Record<string, string>> {
+  if (handles.length === 0) {
+    return {};
+  }
+  const users = await fetchUsers(linear).catch(() => []);
+  const mentions: Record<string, string> = {};
+  for (const handle of handles) {
+    const email = handle.includes("@")
+      ? handle
+      : users.find((user) =>
+          [user.displayName, user.name, user.email?.split("@")[0]].some(
+            (candidate) => candidate?.toLowerCase() === handle
+          )
+        )?.email;
+    if (!email) {
+      continue;
+    }
+    try {
+      const result = await slack.usersLookupByEmail({ email });
+      const id = (result as { user?: { id?: string } }).user?.id;
+      if (id) {
+        mentions[handle] = id;
+      }
+    } catch {
+      // Leave the handle as plain text if the Slack user can't be found
+    }
+  }
+  return mentions;
+}
+
+async function resolveLinearMentions(
+  slack: SlackListsClient,
+  linear: LinearClient,
+  ids: string[]
+): Promise<Record<string, string>> {
+  if (ids.length === 0) {
+    return {};
+  }
+  const users = await fetchUsers(linear).catch(() => []);
+  const mentions: Record<string, string> = {};
+  for (const id of ids) {
+    try {
+      const result = await slack.call("users.info", { user: id });
+      const profile = (result as { user?: { real_name?: string; profile?: { email?: string } } }).user;
+      const email = profile?.profile?.email?.toLowerCase();
+      const match = email ? users.find((user) => user.email?.toLowerCase() === email) : undefined;
+      if (match) {
+        const label = `@${match.displayName ?? match.name ?? email}`;
+        mentions[id] = match.url ? `[${label}](${match.url})` : label;
+      } else if (profile?.real_name) {
+        mentions[id] = `@${profile.real_name}`;
+      }
+    } catch {
+      // Fall back to the raw Slack ID
+    }
+  }
+  return mentions;
+}
+
+function mapOutsideCode(
+  text: string,
+  mapFence: (fence: string) => string,
+  mapText: (segment: string) => string,
+  mapCode: (span: string) => string = (span) => span
+): string {
+  return text
+    .split(/(```[\s\S]*?```)/g)
+    .map((block) => {
+      if (block.startsWith("```")) {
+        return mapFence(block);
+      }
+      return block
+        .split(/(`[^`\n]+`)/g)
+        .map((part) => (part.startsWith("`") && part.endsWith("`") && part.length > 1 ? mapCode(part) : mapText(part)))
+        .join("");
+    })
+    .join("");
+}
+
+function stripCode(text: string): string {
+  return text.replace(/```[\s\S]*?```/g, "").replace(/`[^`\n]+`/g, "");
+}
+
+function restore(text: string, tokens: string[]): string {
+  return text.replace(new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, "g"), (_match, index: string) =>
+    tokens[Number(index)] ?? ""
+  );
+}
+
+function escapeMrkdwn(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/^(\s{0,3})((?:&gt;\s?)+)/gm, (_match, lead: string, quote: string) =>
+      `${lead}${quote.replace(/&gt;/g, ">")}`
+    );
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
@@ -0,0 +1,59 @@
+import { SlackListsClient } from "./slack-client";
+
+export type Reaction = {
+  name: string;
+  count: number;
+  users: string[];
+};
+
+export type ApprovalResult = {
+  status: "approved" | "rejected" | "pending";
+  approved_by: string[];
+  rejected_by: string[];
+};
+
+export function normalizeEmoji(value: string): string {
+  return value.trim().replace(/^:/, "").replace(/:$/, "");
+}
+
+export function summarizeReactions(raw: unknown): Reaction[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter((reaction) => reaction && typeof reaction === "object" && (reaction as { name?: unknown }).name)
+    .map((reaction) => {
+      const { name, count, users } = reaction as { name: string; count?: number; users?: string[] };
+      return { name, count: count ?? users?.length ?? 0, users: users ?? [] };
+    });
+}
+
+export async function fetchReactions(client: SlackListsClient, channel: string, ts: string): Promise<Reaction[]> {
+  const result = await client.call("reactions.get", { channel, timestamp: ts, full: true });
+  const message = (result as { message?: { reactions?: unknown } }).message;
+  return summarizeReactions(message?.reactions);
+}
+
+export function evaluateApproval(
+  reactions: Reaction[],
+  convention: { approved: string[]; rejected: string[] },
+  excludeUsers: string[] = []
+): ApprovalResult {
+  const collect = (names: string[]) => {
+    const normalized = names.map(normalizeEmoji);
+    const users = reactions
+      .filter((reaction) => normalized.includes(stripSkinTone(reaction.name)))
+      .flatMap((reaction) => reaction.users)
+      .filter((user) => !excludeUsers.includes(user));
+    return Array.from(new Set(users));
+  };
+
+  const approvedBy = collect(convention.approved);
+  const rejectedBy = collect(convention.rejected);
+  const status = rejectedBy.length > 0 ? "rejected" : approvedBy.length > 0 ? "approved" : "pending";
+  return { status, approved_by: approvedBy, rejected_by: rejectedBy };
+}
+
+function stripSkinTone(name: string): string {
+  return name.replace(/::skin-tone-\d$/, "");
+}
@@ -1,9 +1,29 @@
+import { DirectoryChannel, DirectoryUser, searchDirectory } from "./directory";
 import { SlackListsClient } from "./slack-client";
 
+export type ResolutionErrorCode = "ambiguous_user" | "user_not_found" | "ambiguous_channel" | "channel_not_found";
+
+export class ResolutionError extends Error {
+  code: ResolutionErrorCode;
+  data: {
+    input: string;
+    candidates?: Array<Record<string, unknown>>;
+    did_you_mean?: Array<Record<string, unknown>>;
+  };
+
+  constructor(message: string, code: ResolutionErrorCode, data: ResolutionError["data"]) {
+    super(message);
+    this.name = "ResolutionError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
+const USER_MATCH_FIELDS = ["name", "display_name", "real_name", "email"] as const;
+const MAX_SUGGESTIONS = 5;
+
 const userCache = new Map<string, string>();
 const channelCache = new Map<string, string>();
-let cachedUsers: Array<Record<string, unknown>> | null = null;
-let cachedChannels: Array<Record<string, unknown>> | null = null;
 
 export async function resolveUserId(client: SlackListsClient, input: string): Promise<string> {
   const trimmed = input.trim();
@@ -36,19 +56,32 @@ export async function resolveUserId(client: SlackListsClient, input: string): Pr
     }
   }
 
-  const name = trimmed.startsWith("@") ? trimmed.slice(1) : trimmed;
-  if (!cachedUsers) {
-    cachedUsers = await loadUsers(client);
-  }
+  const name = (trimmed.startsWith("@") ? trimmed.slice(1) : trimmed).toLowerCase();
+  const { matches, entries } = await searchDirectory(client, "users", (user) =>
+    USER_MATCH_FIELDS.some((field) => user[field]?.toLowerCase() === name)
+  );
+  const active = matches.filter((user) => !user.deleted);
+  const pool = active.length > 0 ? active : matches;
 
-  const found = cachedUsers.find((user) => matchUserName(user, name));
-  if (found) {
-    const id = String(found.id);
-    userCache.set(trimmed, id);
-    return id;
+  // Prefer the most specific field: a unique handle beats a shared display name.
+  for (const field of USER_MATCH_FIELDS) {
+    const tier = pool.filter((user) => user[field]?.toLowerCase() === name);
+    if (tier.length === 1) {
+      userCache.set(trimmed, tier[0].id);
+      return tier[0].id;
+    }
+    if (tier.length > 1) {
+      throw new ResolutionError(`Ambiguous user: ${input} matches ${tier.length} users`, "ambiguous_user", {
+        input,
+        candidates: tier.map(describeUser)
+      });
+    }
   }
 
-  throw new Error(`Unable to resolve user: ${input}`);
+  throw new ResolutionError(`Unable to resolve user: ${input}`, "user_not_found", {
+    input,
+    did_you_mean: rankSuggestions(entries.filter((user) => !user.deleted), name, userSearchValues).map(describeUser)
+  });
 }
 
 export async function resolveChannelId(client: SlackListsClient, input: string): Promise<string> {
@@ -68,22 +101,79 @@ export async function resolveChannelId(client: SlackListsClient, input: string):
     return trimmed;
   }
 
-  const name = trimmed.startsWith("#") ? trimmed.slice(1) : trimmed;
-  if (!cachedChannels) {
-    cachedChannels = await loadChannels(client);
+  const name = (trimmed.startsWith("#") ? trimmed.slice(1) : trimmed).toLowerCase();
+  const { matches, entries } = await searchDirectory(
+    client,
+    "channels",
+    (channel) => channel.name?.toLowerCase() === name
+  );
+  const active = matches.filter((channel) => !channel.is_archived);
+  const pool = active.length > 0 ? active : matches;
+
+  if (pool.length === 1) {
+    channelCache.set(trimmed, pool[0].id);
+    return pool[0].id;
+  }
+  if (pool.length > 1) {
+    throw new ResolutionError(`Ambiguous channel: ${input} matches ${pool.length} channels`, "ambiguous_channel", {
+      input,
+      candidates: pool.map(describeChannel)
+    });
   }
 
-  const found = cachedChannels.find((channel) =>
-    typeof channel.name === "string" && channel.name.toLowerCase() === name.toLowerCase()
+  throw new ResolutionError(`Unable to resolve channel: ${input}`, "channel_not_found", {
+    input,
+    did_you_mean: rankSuggestions(
+      entries.filter((channel) => !channel.is_archived),
+      name,
+      (channel) => [channel.name]
+    ).map(describeChannel)
+  });
+}
+
+export async function findUsers(client: SlackListsClient, query: string, limit: number): Promise<DirectoryUser[]> {
+  const normalized = query.trim().replace(/^@/, "").toLowerCase();
+  const { entries } = await searchDirectory(client, "users", (user) =>
+    userSearchValues(user).some((value) => value !== undefined && similarity(normalized, value.toLowerCase()) >= 0.5)
+  );
+  return rankSuggestions(
+    entries.filter((user) => !user.deleted),
+    normalized,
+    userSearchValues,
+    limit
   );
+}
 
-  if (found) {
-    const id = String(found.id);
-    channelCache.set(trimmed, id);
-    return id;
-  }
+export async function findChannels(
+  client: SlackListsClient,
+  query: string,
+  limit: number
+): Promise<DirectoryChannel[]> {
+  const normalized = query.trim().replace(/^#/, "").toLowerCase();
+  const { entries } = await searchDirectory(
+    client,
+    "channels",
+    (channel) => channel.name !== undefined && similarity(normalized, channel.name.toLowerCase()) >= 0.5
+  );
+  return rankSuggestions(
+    entries.filter((channel) => !channel.is_archived),
+    normalized,
+    (channel) => [channel.name],
+    limit
+  );
+}
 
-  throw new Error(`Unable to resolve channel: ${input}`);
+export async function openDirectMessage(
+  client: SlackListsClient,
+  input: string
+): Promise<{ channel: string; user: string }> {
+  const user = await resolveUserId(client, input);
+  const result = await client.call("conversations.open", { users: user });
+  const channel = (result as { channel?: { id?: string } }).channel?.id;
+  if (!channel) {
+    throw new Error(`Unable to open a direct message with: ${input}`);
+  }
+  return { channel, user };
 }
 
 export function parseMessageUrl(url: string): { channel: string; ts: string } | null {
@@ -112,47 +202,72 @@ export function parseListUrl(url: string): { listId: string } | null {
   return { listId };
 }
 
-async function loadUsers(client: SlackListsClient): Promise<Array<Record<string, unknown>>> {
-  const users: Array<Record<string, unknown>> = [];
-  let cursor: string | undefined = undefined;
-
-  do {
-    const result = await client.usersList({ limit: 200, cursor });
-    const page = (result as { members?: Array<Record<string, unknown>> }).members ?? [];
-    users.push(...page);
-    cursor = (result as { response_metadata?: { next_cursor?: string } }).response_metadata?.next_cursor;
-  } while (cursor);
-
-  return users;
+function describeUser(user: DirectoryUser): Record<string, unknown> {
+  return {
+    id: user.id,
+    name: user.name ?? null,
+    real_name: user.real_name ?? null,
+    display_name: user.display_name ?? null,
+    email: user.email ?? null,
+    title: user.title ?? null
+  };
 }
 
-async function loadChannels(client: SlackListsClient): Promise<Array<Record<string, unknown>>> {
-  const channels: Array<Record<string, unknown>> = [];
-  let cursor: string | undefined = undefined;
+function describeChannel(channel: DirectoryChannel): Record<string, unknown> {
+  return {
+    id: channel.id,
+    name: channel.name ?? null,
+    is_private: channel.is_private ?? false,
+    is_archived: channel.is_archived ?? false
+  };
+}
 
-  do {
-    const result = await client.conversationsList({
-      limit: 200,
-      cursor,
-      types: "public_channel,private_channel"
-    });
-    const page = (result as { channels?: Array<Record<string, unknown>> }).channels ?? [];
-    channels.push(...page);
-    cursor = (result as { response_metadata?: { next_cursor?: string } }).response_metadata?.next_cursor;
-  } while (cursor);
+function userSearchValues(user: DirectoryUser): Array<string | undefined> {
+  return [user.name, user.display_name, user.real_name, user.email, user.email?.split("@")[0]];
+}
 
-  return channels;
+function rankSuggestions<T>(
+  entries: T[],
+  query: string,
+  values: (entry: T) => Array<string | undefined>,
+  limit = MAX_SUGGESTIONS
+): T[] {
+  return entries
+    .map((entry) => ({
+      entry,
+      score: Math.max(0, ...values(entry).map((value) => (value ? similarity(query, value.toLowerCase()) : 0)))
+    }))
+    .filter((candidate) => candidate.score >= 0.5)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((candidate) => candidate.entry);
 }
 
-function matchUserName(user: Record<string, unknown>, name: string): boolean {
-  const candidate = name.toLowerCase();
-  const username = typeof user.name === "string" ? user.name.toLowerCase() : "";
-  if (username === candidate) {
-    return true;
+function similarity(query: string, value: string): number {
+  if (!query || !value) {
+    return 0;
+  }
+  if (value.startsWith(query) || value.split(/[\s._-]+/).some((word) => word.startsWith(query))) {
+    return 0.9 + 0.1 * (query.length / value.length);
   }
+  if (value.includes(query)) {
+    return 0.8;
+  }
+  return 1 - levenshtein(query, value) / Math.max(query.length, value.length);
+}
 
-  const profile = user.profile as Record<string, unknown> | undefined;
-  const display = typeof profile?.display_name === "string" ? profile.display_name.toLowerCase() : "";
-  const real = typeof profile?.real_name === "string" ? profile.real_name.toLowerCase() : "";
-  return display === candidate || real === candidate;
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
 }
@@ -19,6 +19,10 @@ export class SlackListsClient {
     return this.callWithRetry(() => this.client.apiCall("chat.postMessage", params));
   }
 
+  async scheduleMessage(params: Record<string, unknown>): Promise<WebAPICallResult> {
+    return this.callWithRetry(() => this.client.apiCall("chat.scheduleMessage", params));
+  }
+
   async usersList(params: Record<string, unknown>): Promise<WebAPICallResult> {
     return this.callWithRetry(() => this.client.apiCall("users.list", params));
   }
@@ -0,0 +1,68 @@
+export function parseSlackTimestamp(value?: string, label = "--since/--latest"): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+\.\d+$/.test(value)) {
+    return value;
+  }
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    const seconds = numeric > 1e12 ? Math.floor(numeric / 1000) : numeric;
+    return String(seconds);
+  }
+  const relative = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (relative) {
+    const unitSeconds: Record<string, number> = { m: 60, h: 3600, d: 86_400, w: 604_800 };
+    return String(Math.floor(Date.now() / 1000) - Number(relative[1]) * unitSeconds[relative[2].toLowerCase()]);
+  }
+  const parsed = Date.parse(value);
+  if (!Number.isNaN(parsed)) {
+    return String(Math.floor(parsed / 1000));
+  }
+  throw new Error(`${label} must be a Slack ts, ISO timestamp, epoch seconds or relative time like 12h`);
+}
+
+export function slackTsToIso(ts?: string): string {
+  const seconds = Number(ts);
+  return Number.isFinite(seconds) ? new Date(seconds * 1000).toISOString() : "";
+}
+
+export function latestSlackTs(...values: Array<string | undefined>): string | undefined {
+  let latest: string | undefined;
+  for (const value of values) {
+    if (value && (!latest || Number(value) > Number(latest))) {
+      latest = value;
+    }
+  }
+  return latest;
+}
+
+const MAX_SCHEDULE_SECONDS = 120 * 86_400;
+
+export function parseScheduleTime(value: string, label = "--at"): number {
+  const trimmed = value.trim();
+  const relative = trimmed.match(/^(?:\+|in\s+)?(\d+)\s*([mhdw])$/i);
+  let seconds: number;
+  if (relative) {
+    const unitSeconds: Record<string, number> = { m: 60, h: 3600, d: 86_400, w: 604_800 };
+    seconds = Math.floor(Date.now() / 1000) + Number(relative[1]) * unitSeconds[relative[2].toLowerCase()];
+  } else if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const numeric = Number(trimmed);
+    seconds = Math.floor(numeric > 1e12 ? numeric / 1000 : numeric);
+  } else {
+    const parsed = Date.parse(trimmed);
+    if (Number.isNaN(parsed)) {
+      throw new Error(`${label} must be an ISO timestamp, epoch seconds or relative time like +2h`);
+    }
+    seconds = Math.floor(parsed / 1000);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (seconds <= now) {
+    throw new Error(`${label} must be in the future`);
+  }
+  if (seconds - now > MAX_SCHEDULE_SECONDS) {
+    throw new Error(`${label} must be within 120 days (Slack scheduling limit)`);
+  }
+  return seconds;
+}
@@ -1,14 +1,26 @@
 import { promises as fs } from "fs";
 import path from "path";
 
+import { readProjectDataFile } from "./cache";
 import { resolveThreadMapPath } from "./config";
 
+export type ScheduledMessage = {
+  id: string;
+  channel: string;
+  post_at: number;
+  text?: string;
+  created_at?: string;
+};
+
 export type ThreadEntry = {
   permalink?: string;
   channel?: string;
   ts?: string;
   label?: string;
   state?: string;
+  mirrored_ts?: string;
+  last_read_ts?: string;
+  scheduled?: ScheduledMessage[];
   created_at?: string;
   updated_at?: string;
 };
@@ -31,6 +43,25 @@ export async function getThreadEntries(listId: string, itemId: string): Promise<
   return normalizeThreads(raw);
 }
 
+export async function listThreadItems(
+  scopePrefix: string
+): Promise<Array<{ scope: string; itemId: string; entries: ThreadEntry[] }>> {
+  const map = await loadThreadMap();
+  const items: Array<{ scope: string; itemId: string; entries: ThreadEntry[] }> = [];
+  for (const [scope, threads] of Object.entries(map.lists ?? {})) {
+    if (scope !== scopePrefix && !scope.startsWith(`${scopePrefix}:`)) {
+      continue;
+    }
+    for (const [itemId, raw] of Object.entries(threads ?? {})) {
+      const entries = normalizeThreads(raw);
+      if (entries.length > 0) {
+        items.push({ scope, itemId, entries });
+      }
+    }
+  }
+  return items;
+}
+
 export async function setThreadEntry(listId: string, itemId: string, entry: ThreadEntry): Promise<void> {
   const filePath = resolveThreadMapPath();
   const map = await loadThreadMap();
@@ -63,6 +94,77 @@ export async function setThreadEntry(listId: string, itemId: string, entry: Thre
   await fs.writeFile(filePath, JSON.stringify(map, null, 2), "utf-8");
 }
 
+export async function recordScheduledMessage(
+  listId: string,
+  itemId: string,
+  thread: { channel: string; ts: string; permalink?: string },
+  message: ScheduledMessage
+): Promise<void> {
+  const existing = (await getThreadEntries(listId, itemId)).find((entry) => entry.ts === thread.ts);
+  const now = Date.now() / 1000;
+  // Drop earlier messages for this thread that Slack has already posted.
+  const scheduled = (existing?.scheduled ?? []).filter((entry) => entry.id !== message.id && entry.post_at > now);
+  await setThreadEntry(listId, itemId, {
+    ...(thread.permalink ? { permalink: thread.permalink } : {}),
+    channel: thread.channel,
+    ts: thread.ts,
+    scheduled: [...scheduled, { ...message, created_at: message.created_at ?? new Date().toISOString() }]
+  });
+}
+
+export async function listScheduledMessages(): Promise<
+  Array<ScheduledMessage & { scope: string; item_id: string; thread_ts?: string }>
+> {
+  const map = await loadThreadMap();
+  const results: Array<ScheduledMessage & { scope: string; item_id: string; thread_ts?: string }> = [];
+  for (const [scope, threads] of Object.entries(map.lists ?? {})) {
+    for (const [itemId, raw] of Object.entries(threads ?? {})) {
+      for (const entry of normalizeThreads(raw)) {
+        for (const message of entry.scheduled ?? []) {
+          results.push({ ...message, scope, item_id: itemId, thread_ts: entry.ts });
+        }
+      }
+    }
+  }
+  return results;
+}
+
+export async function removeScheduledMessage(id: string): Promise<boolean> {
+  const removed = await removeScheduledMessages((message) => message.id === id);
+  return removed.length > 0;
+}
+
+export async function removeScheduledMessages(predicate: (message: ScheduledMessage) => boolean): Promise<string[]> {
+  const filePath = resolveThreadMapPath();
+  const map = await loadThreadMap();
+  const removed: string[] = [];
+  for (const threads of Object.values(map.lists ?? {})) {
+    for (const [itemId, raw] of Object.entries(threads ?? {})) {
+      const entries = normalizeThreads(raw);
+      for (const entry of entries) {
+        if (!entry.scheduled) {
+          continue;
+        }
+        const remaining = entry.scheduled.filter((message) => !predicate(message));
+        if (remaining.length !== entry.scheduled.length) {
+          removed.push(...entry.scheduled.filter(predicate).map((message) => message.id));
+          if (remaining.length > 0) {
+            entry.scheduled = remaining;
+          } else {
+            delete entry.scheduled;
+          }
+        }
+      }
+      threads[itemId] = entries;
+    }
+  }
+  if (removed.length > 0) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(map, null, 2), "utf-8");
+  }
+  return removed;
+}
+
 export async function removeThreadEntry(listId: string, itemId: string): Promise<void> {
   const filePath = resolveThreadMapPath();
   const map = await loadThreadMap();
@@ -78,17 +180,8 @@ export async function removeThreadEntry(listId: string, itemId: string): Promise
 }
 
 async function loadThreadMap(): Promise<ThreadMap> {
-  const filePath = resolveThreadMapPath();
-  try {
-    const raw = await fs.readFile(filePath, "utf-8");
-    return JSON.parse(raw) as ThreadMap;
-  } catch (error) {
-    const code = (error as { code?: string }).code;
-    if (code === "ENOENT") {
-      return {};
-    }
-    throw error;
-  }
+  const raw = await readProjectDataFile(resolveThreadMapPath());
+  return raw ? (JSON.parse(raw) as ThreadMap) : {};
 }
 
 function normalizeThreads(value: ThreadEntry[] | ThreadEntry | { threads?: ThreadEntry[] } | undefined): ThreadEntry[] {
@@ -3,6 +3,7 @@ import { Command } from "commander";
 export type GlobalOptions = {
   token?: string;
   asUser?: boolean;
+  profile?: string;
   schema?: string;
   refreshSchema?: boolean;
   verbose?: boolean;
@@ -1,7 +1,24 @@
+import { LinearApiError } from "../lib/linear-client";
+import { ResolutionError } from "../lib/resolvers";
 import { outputError, formatError, formatSlackError, ErrorDetails } from "./output";
 
 export function handleCommandError(error: unknown, verbose?: boolean): never {
   const base = verbose ? formatSlackError(error) : formatError(error);
+  if (error instanceof LinearApiError) {
+    outputError("command_failed", {
+      ...base,
+      code: error.code,
+      hint: hintForLinearError(error)
+    });
+  }
+  if (error instanceof ResolutionError) {
+    outputError("command_failed", {
+      ...base,
+      code: error.code,
+      hint: hintForResolutionError(error),
+      data: error.data
+    });
+  }
   const slackCode = extractSlackErrorCode(error);
   const hint = slackCode ? hintForSlackError(slackCode, error) : undefined;
   const details: ErrorDetails = {
@@ -48,3 +65,33 @@ function hintForSlackError(code: string, error: unknown): string | undefined {
       return undefined;
   }
 }
+
+function hintForLinearError(error: LinearApiError): string | undefined {
+  switch (error.code) {
+    case "linear_auth_failed":
+      return "Check that LINEAR_API_KEY is valid; run `ml-agent linear auth status` to verify.";
+    case "linear_forbidden":
+      return "The Linear API key lacks permission for this operation or team. Run `ml-agent linear teams` to see accessible teams.";
+    case "linear_not_found":
+      return "Verify the issue identifier (e.g. ABC-123), team, state, label or project name. Use `ml-agent issues search` or `ml-agent linear states` to look them up.";
+    case "linear_rate_limited":
+      return "Linear rate limit hit. The CLI retried with backoff; wait for the limit window to reset before retrying.";
+    case "linear_validation":
+      return "Linear rejected the input. Check field values (dates, estimates, IDs) and rerun with --verbose for the full GraphQL error.";
+    case "linear_unavailable":
+    case "linear_network_error":
+      return "Linear API is unreachable. The CLI retried automatically; try again later.";
+    default:
+      return undefined;
+  }
+}
+
+function hintForResolutionError(error: ResolutionError): string {
+  const kind = error.code.includes("channel") ? "channel" : "user";
+  if (error.code.startsWith("ambiguous")) {
+    return `Several ${kind}s match. Retry with one of the candidate IDs${kind === "user" ? " or emails" : ""}.`;
+  }
+  return error.data.did_you_mean?.length
+    ? `No exact ${kind} match. Retry with one of the did_you_mean IDs, or run \`ml-agent directory refresh\` if the ${kind} is new.`
+    : `No ${kind} matches. Check the spelling, or run \`ml-agent directory refresh\` if the ${kind} is new.`;
+}
@@ -11,9 +11,11 @@ export function outputJson(data: unknown): void {
   process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
 }
 
-export function outputError(error: string, details?: unknown): never {
+export const EXIT_TIMEOUT = 2;
+
+export function outputError(error: string, details?: unknown, exitCode = 1): never {
   process.stderr.write(`${JSON.stringify({ ok: false, error, details }, null, 2)}\n`);
-  process.exit(1);
+  process.exit(exitCode);
 }
 
 export function formatError(error: unknown): ErrorDetails {